@@ -0,0 +1,77 @@
+import type { SkillCatalog } from "./index.js";
+
+/**
+ * Web frameworks that get generic web design skills
+ */
+const WEB_FRAMEWORKS = [
+	"nextjs",
+	"react",
+	"vue",
+	"svelte",
+	"sveltekit",
+	"nuxt",
+	"remix",
+	"astro",
+	"gatsby",
+	"angular",
+	"solid",
+	"qwik",
+];
+
+/**
+ * Curated/official skills shipped with skills-detector.
+ * These take priority over search results, so only skills published by the maintainers
+ * of the detected technology (or written for exactly what triggers them) are listed;
+ * everything else is left to search.
+ */
+export const BUILTIN_CATALOG: SkillCatalog = {
+	version: 1,
+	entries: [
+		// Official framework skills
+		{
+			id: "nextjs",
+			skills: [
+				"vercel-labs/next-skills@next-best-practices",
+				"vercel-labs/next-skills@next-upgrade",
+				"vercel-labs/agent-skills@vercel-react-best-practices",
+			],
+			when: { any: { frameworks: ["nextjs"] } },
+			priority: 100,
+			rationale: "Official Next.js skills from Vercel, with the React practices they build on",
+		},
+		{
+			id: "react",
+			skills: ["vercel-labs/agent-skills@vercel-react-best-practices"],
+			when: { any: { frameworks: ["react"] } },
+			priority: 90,
+			rationale: "React performance best practices from Vercel",
+		},
+		{
+			id: "turborepo",
+			skills: ["vercel/turborepo@turborepo"],
+			when: { any: { tools: ["turborepo"] } },
+			priority: 90,
+			rationale: "Official Turborepo skill, from the Turborepo repository",
+		},
+
+		// Testing
+		{
+			id: "webapp-testing",
+			skills: ["anthropics/skills@webapp-testing"],
+			when: { any: { testing: ["playwright"] } },
+			priority: 40,
+			rationale: "Drives a local web app with Playwright, the detected test runner",
+			keepSearching: true,
+		},
+
+		// Generic web skills don't replace framework-specific search results
+		{
+			id: "web-design-guidelines",
+			skills: ["vercel-labs/web-design-guidelines@web-design-guidelines"],
+			when: { any: { frameworks: WEB_FRAMEWORKS } },
+			priority: 20,
+			rationale: "Framework-agnostic web interface guidelines, for any web framework",
+			keepSearching: true,
+		},
+	],
+};
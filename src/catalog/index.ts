@@ -0,0 +1,252 @@
+import { resolve } from "node:path";
+import { BUILTIN_CATEGORIES } from "../detectors/registry.js";
+import { asRecord, readJson } from "../manifests/read.js";
+import type { BuiltinCategory, DetectionCategory, DetectionResult } from "../types.js";
+import { parseVersionedName, satisfiesMajor } from "../versions.js";
+
+/**
+ * Current version of the catalog format
+ */
+export const CATALOG_VERSION = 1;
+
+/**
+ * A curated skill catalog (see schema/catalog.schema.json)
+ */
+export interface SkillCatalog {
+	$schema?: string;
+	/** Catalog format version */
+	version: typeof CATALOG_VERSION;
+	entries: CatalogEntry[];
+}
+
+/**
+ * Skills recommended when a project matches a condition
+ */
+export interface CatalogEntry {
+	/** Unique id; entries of later catalogs replace earlier ones with the same id */
+	id: string;
+	/** Skill refs ("owner/repo@skill"); an empty list removes the entry */
+	skills: string[];
+	/** Detections that trigger the entry (only optional when removing an entry) */
+	when?: CatalogCondition;
+	/** Higher priority entries are recommended first (defaults to 0) */
+	priority?: number;
+	/** Why these skills are recommended */
+	rationale?: string;
+	/**
+	 * Still search for skills for the matched detections. By default a catalog match
+	 * replaces searching, which suits framework-specific skills but not generic ones.
+	 */
+	keepSearching?: boolean;
+}
+
+/**
+ * Detections by category, as "name" or "name@range" (e.g. "nextjs@>=15")
+ */
+export type DetectionSelector = Partial<Record<DetectionCategory, string[]>>;
+
+/**
+ * When both are given, both must hold
+ */
+export interface CatalogCondition {
+	/** At least one of these detections must be present */
+	any?: DetectionSelector;
+	/** All of these detections must be present */
+	all?: DetectionSelector;
+}
+
+/**
+ * A recommended skill from a matching catalog entry
+ */
+export interface CatalogMatch {
+	skill: string;
+	/** Id of the entry that recommended the skill */
+	entry: string;
+	priority: number;
+	rationale?: string;
+	/** Detections that satisfied the entry's condition */
+	matched: string[];
+	keepSearching: boolean;
+}
+
+type CatalogDetection = Pick<
+	DetectionResult,
+	| "frameworks"
+	| "languages"
+	| "tools"
+	| "testing"
+	| "platforms"
+	| "ci"
+	| "databases"
+	| "custom"
+	| "versions"
+>;
+
+/**
+ * Load a catalog file, throwing a descriptive error if it is missing or invalid
+ */
+export function loadCatalog(path: string, cwd = process.cwd()): SkillCatalog {
+	const file = resolve(cwd, path);
+	const raw = readJson<unknown>(file);
+	if (raw === undefined) {
+		throw new Error(`Could not read catalog ${path}`);
+	}
+	return validateCatalog(raw, path);
+}
+
+/**
+ * Layer catalogs on top of each other: entries replace earlier ones with the same id,
+ * and entries without skills are removed
+ */
+export function mergeCatalogs(...catalogs: SkillCatalog[]): SkillCatalog {
+	const entries = new Map<string, CatalogEntry>();
+
+	for (const catalog of catalogs) {
+		for (const entry of catalog.entries) {
+			entries.delete(entry.id);
+			if (entry.skills.length > 0) entries.set(entry.id, entry);
+		}
+	}
+
+	return { version: CATALOG_VERSION, entries: [...entries.values()] };
+}
+
+/**
+ * Turn a simple { "nextjs@>=15": ["owner/repo@skill"] } mapping into a catalog,
+ * matching keys against frameworks and tools
+ */
+export function catalogFromMapping(mapping: Record<string, string[]>): SkillCatalog {
+	return {
+		version: CATALOG_VERSION,
+		entries: Object.entries(mapping).map(([key, skills]) => ({
+			id: key,
+			skills,
+			when: { any: { frameworks: [key], tools: [key] } },
+		})),
+	};
+}
+
+/**
+ * Find the skills recommended by a catalog for detection results, highest priority first.
+ * A skill recommended by several entries is only returned once.
+ */
+export function matchCatalog(catalog: SkillCatalog, detection: CatalogDetection): CatalogMatch[] {
+	const matches: CatalogMatch[] = [];
+
+	for (const entry of catalog.entries) {
+		const matched = entry.when && matchCondition(entry.when, detection);
+		if (!matched) continue;
+
+		for (const skill of entry.skills) {
+			// A skill recommended by several entries keeps the first (highest priority) one,
+			// while accounting for every detection it covers
+			const existing = matches.find((match) => match.skill === skill);
+			if (existing) {
+				existing.priority = Math.max(existing.priority, entry.priority ?? 0);
+				existing.matched = [...new Set([...existing.matched, ...matched])];
+				existing.keepSearching &&= entry.keepSearching ?? false;
+				continue;
+			}
+
+			matches.push({
+				skill,
+				entry: entry.id,
+				priority: entry.priority ?? 0,
+				...(entry.rationale ? { rationale: entry.rationale } : {}),
+				matched,
+				keepSearching: entry.keepSearching ?? false,
+			});
+		}
+	}
+
+	// Stable sort keeps catalog order among entries of equal priority
+	return matches.sort((a, b) => b.priority - a.priority);
+}
+
+/**
+ * Evaluate a condition, returning the matched detection names (undefined if it doesn't hold)
+ */
+function matchCondition(
+	condition: CatalogCondition,
+	detection: CatalogDetection,
+): string[] | undefined {
+	const any = condition.any ? selectDetections(condition.any, detection) : undefined;
+	const all = condition.all ? selectDetections(condition.all, detection) : undefined;
+	if (!any && !all) return undefined;
+
+	if (any && !any.some((result) => result.present)) return undefined;
+	if (all && !all.every((result) => result.present)) return undefined;
+
+	const names = [...(any ?? []), ...(all ?? [])]
+		.filter((result) => result.present)
+		.map((result) => result.name);
+	return [...new Set(names)];
+}
+
+function selectDetections(
+	selector: DetectionSelector,
+	detection: CatalogDetection,
+): { name: string; present: boolean }[] {
+	return Object.entries(selector).flatMap(([category, refs = []]) => {
+		const detected =
+			(BUILTIN_CATEGORIES.includes(category)
+				? detection[category as BuiltinCategory]
+				: detection.custom?.[category]) ?? [];
+		return refs.map((ref) => {
+			const { name, range } = parseVersionedName(ref);
+			return {
+				name,
+				present: detected.includes(name) && satisfiesMajor(detection.versions[name], range),
+			};
+		});
+	});
+}
+
+/**
+ * Check the shape of a catalog, throwing a descriptive error for invalid entries
+ */
+function validateCatalog(value: unknown, source: string): SkillCatalog {
+	const catalog = asRecord(value);
+	const fail = (message: string): never => {
+		throw new Error(`Invalid catalog ${source}: ${message}`);
+	};
+
+	if (catalog.version !== CATALOG_VERSION) {
+		fail(`unsupported version ${JSON.stringify(catalog.version)} (expected ${CATALOG_VERSION})`);
+	}
+	if (!Array.isArray(catalog.entries)) {
+		fail(`"entries" must be an array`);
+	}
+
+	const isStringArray = (list: unknown) =>
+		Array.isArray(list) && list.every((item) => typeof item === "string");
+	const isSelector = (selector: unknown) =>
+		selector === undefined ||
+		(asRecord(selector) === selector && Object.values(asRecord(selector)).every(isStringArray));
+
+	(catalog.entries as unknown[]).forEach((item, index) => {
+		const entry = asRecord(item);
+		const label = typeof entry.id === "string" ? `entry "${entry.id}"` : `entry ${index}`;
+		const when = asRecord(entry.when);
+
+		if (typeof entry.id !== "string") fail(`${label} must have a string "id"`);
+		if (!isStringArray(entry.skills)) fail(`${label} "skills" must be an array of strings`);
+		const removal = Array.isArray(entry.skills) && entry.skills.length === 0;
+		if (
+			!(removal && entry.when === undefined) &&
+			(when !== entry.when || (!when.any && !when.all))
+		) {
+			fail(`${label} "when" must have "any" and/or "all"`);
+		}
+		if (!isSelector(when.any) || !isSelector(when.all)) {
+			fail(`${label} conditions must map categories to arrays of detection names`);
+		}
+		if (entry.priority !== undefined && typeof entry.priority !== "number") {
+			fail(`${label} "priority" must be a number`);
+		}
+	});
+
+	return catalog as unknown as SkillCatalog;
+}
+
+export { BUILTIN_CATALOG } from "./builtin.js";
@@ -1,113 +1,345 @@
 #!/usr/bin/env node
 
-import { execSync } from "node:child_process";
-import { writeFileSync } from "node:fs";
-import { join } from "node:path";
-import { detect } from "./index.js";
-import type { DetectionResult } from "./types.js";
-
-const SKILLS_JSON_FILE = "skills.json";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { basename, dirname, join, resolve } from "node:path";
+import { type ParseArgsConfig, parseArgs } from "node:util";
+import {
+	BUILTIN_CATEGORIES,
+	buildSkillsJson,
+	createSearchProvider,
+	detect,
+	diffLines,
+	diffSkillsJson,
+	getWriter,
+	listWriters,
+	loadConfig,
+	readSkillsJson,
+	recommend,
+	registerWriter,
+	type SearchProviderConfig,
+	type SkillsJsonDiff,
+} from "./index.js";
+import { readText } from "./manifests/read.js";
+import type { DetectionResult, Evidence, SkillRecommendation } from "./types.js";
 
 /**
- * Curated/official skill recommendations based on detected frameworks
- * These take priority over search results
+ * Exit codes, distinct so scripts and CI can tell outcomes apart
  */
-const CURATED_SKILLS: Record<string, string[]> = {
-	// Next.js projects get official Vercel skills
-	nextjs: [
-		"vercel-labs/next-skills@next-best-practices",
-		"vercel-labs/next-skills@next-upgrade",
-		"vercel-labs/agent-skills@vercel-react-best-practices",
-	],
-	// React projects get Vercel React skills
-	react: ["vercel-labs/agent-skills@vercel-react-best-practices"],
-	// Turborepo projects
-	turborepo: ["vercel/turborepo@turborepo"],
-};
+const EXIT_CODES = {
+	/** Unexpected error */
+	error: 1,
+	/** Unknown command or option, missing or invalid value */
+	invalidArgs: 2,
+	/** No project characteristics detected */
+	nothingDetected: 3,
+	/** Every skill search failed */
+	searchFailed: 4,
+	/** skills.json is missing or out of date (check) */
+	outOfDate: 5,
+} as const;
 
 /**
- * Web frameworks that should get design guidelines skill
+ * An expected failure, reported without a stack trace and with its own exit code
  */
-const WEB_FRAMEWORKS = [
-	"nextjs",
-	"react",
-	"vue",
-	"svelte",
-	"nuxt",
-	"remix",
-	"astro",
-	"gatsby",
-	"angular",
-	"solid",
-	"qwik",
+class CliError extends Error {
+	exitCode: number;
+
+	constructor(message: string, exitCode: number) {
+		super(message);
+		this.name = "CliError";
+		this.exitCode = exitCode;
+	}
+}
+
+const COMMANDS = ["detect", "explain", "recommend", "write", "check"] as const;
+
+type Command = (typeof COMMANDS)[number];
+
+const OPTIONS = {
+	help: { type: "boolean", short: "h" },
+	version: { type: "boolean", short: "v" },
+	cwd: { type: "string", short: "C" },
+	json: { type: "boolean" },
+	"sample-files": { type: "boolean" },
+	"scan-imports": { type: "boolean" },
+	explain: { type: "boolean" },
+	"min-confidence": { type: "string" },
+	"versioned-terms": { type: "boolean" },
+	transitive: { type: "boolean" },
+	"skip-search": { type: "boolean" },
+	catalog: { type: "string", multiple: true },
+	provider: { type: "string" },
+	registry: { type: "string" },
+	index: { type: "string" },
+	concurrency: { type: "string" },
+	limit: { type: "string" },
+	"per-term": { type: "string" },
+	"no-cache": { type: "boolean" },
+	refresh: { type: "boolean" },
+	format: { type: "string", short: "f" },
+	output: { type: "string", short: "o" },
+	merge: { type: "boolean" },
+	overwrite: { type: "boolean" },
+	"dry-run": { type: "boolean" },
+	check: { type: "boolean" },
+} as const satisfies ParseArgsConfig["options"];
+
+type OptionName = keyof typeof OPTIONS;
+
+const DETECT_OPTIONS: OptionName[] = [
+	"cwd",
+	"json",
+	"sample-files",
+	"scan-imports",
+	"explain",
+	"min-confidence",
+	"versioned-terms",
+	"transitive",
+];
+
+const SEARCH_OPTIONS: OptionName[] = [
+	"skip-search",
+	"catalog",
+	"provider",
+	"registry",
+	"index",
+	"concurrency",
+	"limit",
+	"per-term",
+	"no-cache",
+	"refresh",
 ];
 
+/**
+ * Options each command accepts, besides --help and --version
+ */
+const COMMAND_OPTIONS: Record<Command, OptionName[]> = {
+	detect: DETECT_OPTIONS,
+	explain: DETECT_OPTIONS,
+	recommend: [...DETECT_OPTIONS, ...SEARCH_OPTIONS],
+	write: [
+		...DETECT_OPTIONS,
+		...SEARCH_OPTIONS,
+		"format",
+		"output",
+		"merge",
+		"overwrite",
+		"dry-run",
+	],
+	check: [...DETECT_OPTIONS, ...SEARCH_OPTIONS, "format", "output"],
+};
+
 interface CliOptions {
+	command: Command;
 	cwd?: string;
 	json?: boolean;
 	skipSearch?: boolean;
+	sampleFiles?: boolean;
+	scanImports?: boolean;
+	explain?: boolean;
+	minConfidence?: number;
+	versionedTerms?: boolean;
+	transitive?: boolean;
+	catalogs?: string[];
+	provider?: string;
+	registry?: string;
+	index?: string;
+	concurrency?: number;
+	limit?: number;
+	perTerm?: number;
+	noCache?: boolean;
+	refresh?: boolean;
+	format: string;
+	output?: string;
+	mode: "merge" | "overwrite" | "dry-run";
 	help?: boolean;
 	version?: boolean;
 }
 
-interface SkillEntry {
-	source: string;
-	skills: string[];
+function parseCliArgs(args: string[]): CliOptions {
+	const { values, positionals } = parseStrict(args);
+
+	const [name, ...extra] = positionals;
+	if (name !== undefined && !isCommand(name)) {
+		throw usageError(`Unknown command "${name}" (expected ${COMMANDS.join(", ")})`);
+	}
+	if (extra.length > 0) {
+		throw usageError(`Unexpected argument "${extra[0]}"`);
+	}
+
+	// Without a command, --check and --skip-search keep their original meaning
+	const command = name ?? (values.check ? "check" : values["skip-search"] ? "detect" : "write");
+	const allowed = [
+		...COMMAND_OPTIONS[command],
+		"help",
+		"version",
+		...(name ? [] : ["check", "skip-search"]),
+	];
+	for (const option of Object.keys(values)) {
+		if (!allowed.includes(option)) {
+			throw usageError(`Option --${option} is not supported by the ${command} command`);
+		}
+	}
+
+	const modes = (["merge", "overwrite", "dry-run"] as const).filter((mode) => values[mode]);
+	if (modes.length > 1) {
+		throw usageError(`--${modes[0]} and --${modes[1]} can't be used together`);
+	}
+
+	const format = values.format ?? "skillman";
+	if (command === "check" && values["skip-search"] && format !== "skillman") {
+		throw usageError("check --skip-search only supports the skillman format");
+	}
+
+	if (command === "check" && values.output === "-") {
+		throw usageError("check compares an existing file, so --output can't be - (stdout)");
+	}
+
+	const minConfidence = parseNumber(values["min-confidence"], "--min-confidence");
+	if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+		throw usageError("--min-confidence must be a number between 0 and 1");
+	}
+
+	return {
+		command,
+		cwd: values.cwd,
+		json: values.json,
+		skipSearch: values["skip-search"],
+		sampleFiles: values["sample-files"],
+		scanImports: values["scan-imports"],
+		explain: values.explain || command === "explain",
+		minConfidence,
+		versionedTerms: values["versioned-terms"],
+		transitive: values.transitive,
+		catalogs: values.catalog,
+		provider: values.provider,
+		registry: values.registry,
+		index: values.index,
+		concurrency: parsePositiveInteger(values.concurrency, "--concurrency"),
+		limit: parsePositiveInteger(values.limit, "--limit"),
+		perTerm: parsePositiveInteger(values["per-term"], "--per-term"),
+		noCache: values["no-cache"],
+		refresh: values.refresh,
+		format,
+		// Without a command, --json prints the rendered file (like -o -) instead of writing it
+		output: values.output ?? (!name && command === "write" && values.json ? "-" : undefined),
+		mode: modes[0] ?? "merge",
+		help: values.help,
+		version: values.version,
+	};
 }
 
-interface DetectedWithTimestamp extends DetectionResult {
-	timestamp: string;
+/**
+ * Parse arguments, rejecting unknown options and missing values
+ */
+function parseStrict(args: string[]) {
+	try {
+		return parseArgs({ args, options: OPTIONS, allowPositionals: true, strict: true });
+	} catch (error) {
+		throw usageError(error instanceof Error ? error.message : String(error));
+	}
 }
 
-interface SkillsJson {
-	$schema: string;
-	detected: DetectedWithTimestamp;
-	skills: SkillEntry[];
+function isCommand(name: string): name is Command {
+	return (COMMANDS as readonly string[]).includes(name);
 }
 
-function parseArgs(args: string[]): CliOptions {
-	const options: CliOptions = {};
-
-	for (let i = 0; i < args.length; i++) {
-		const arg = args[i];
-
-		if (arg === "--help" || arg === "-h") {
-			options.help = true;
-		} else if (arg === "--version" || arg === "-v") {
-			options.version = true;
-		} else if (arg === "--json") {
-			options.json = true;
-		} else if (arg === "--skip-search") {
-			options.skipSearch = true;
-		} else if (arg === "--cwd" || arg === "-C") {
-			options.cwd = args[++i];
-		}
+function usageError(message: string): CliError {
+	return new CliError(message, EXIT_CODES.invalidArgs);
+}
+
+function parseNumber(value: string | undefined, flag: string): number | undefined {
+	if (value === undefined) return undefined;
+	const number = Number(value);
+	if (value.trim() === "" || Number.isNaN(number)) {
+		throw usageError(`${flag} must be a number (got "${value}")`);
 	}
+	return number;
+}
 
-	return options;
+function parsePositiveInteger(value: string | undefined, flag: string): number | undefined {
+	const number = parseNumber(value, flag);
+	if (number !== undefined && !(Number.isInteger(number) && number > 0)) {
+		throw usageError(`${flag} must be a positive integer`);
+	}
+	return number;
 }
 
 function showHelp(): void {
 	console.log(`
 skills-detector - Detect project characteristics and find matching skills
 
-Usage: skills-detector [options]
+Usage: skills-detector [command] [options]
+
+Commands:
+  write            Detect, recommend skills and write skills.json (default)
+  detect           Detect project characteristics only
+  explain          Detect and show the confidence and evidence of every detection
+  recommend        Detect and recommend skills, without writing anything
+  check            Exit with an error if skills.json is out of date (for CI)
 
 Options:
   -h, --help       Show this help message
   -v, --version    Show version number
+  -C, --cwd <dir>  Working directory to analyze (default: current directory)
   --json           Output only JSON (no other text)
-  --skip-search    Skip searching for skills (detection only)
-  -C, --cwd        Working directory to analyze (default: current directory)
+  --sample-files   Walk source files to weight languages by code volume
+  --scan-imports   Scan source files for imports, to rank dependencies that are actually used
+  --explain        Show confidence and evidence for every detection
+  --min-confidence <n>
+                   Drop detections below this confidence (0-1)
+  --versioned-terms
+                   Qualify search terms with major versions (e.g. nextjs@15)
+  --transitive     Also detect packages installed only as transitive dependencies
+
+Recommendation options (recommend, write, check):
+  --skip-search    Don't search for skills (curated skills only; check compares detection only)
+  --catalog <path> Layer a curated skill catalog file on top of the built-in one
+  --provider <name>
+                   Skill search backend: npx (default), http or local
+  --registry <url> Search an HTTP skill registry at this base URL
+  --index <path>   Search a local skill index (JSON file or directory of SKILL.md)
+  --concurrency <n>
+                   Maximum number of searches running at once (default: 4)
+  --limit <n>      Maximum number of search results to recommend (default: 10)
+  --per-term <n>   Maximum number of search results for a single term (default: 2)
+  --no-cache       Don't read or write cached search results
+  --refresh        Ignore cached search results and refresh them
+
+Output options (write, check):
+  -f, --format <name>
+                   Output format: skillman (skills.json, default), agents-md (AGENTS.md
+                   section), claude-md (CLAUDE.md section), cursor (.cursor/rules/skills.mdc)
+                   or lockfile (skills.lock)
+  -o, --output <path>
+                   File to write or check (default: the format's file in the working
+                   directory; "-" writes to stdout, except with check)
+  --merge          Merge into an existing skills.json, keeping manual entries (default)
+  --overwrite      Replace skills.json with the new recommendations
+  --dry-run        Show how the file would change without writing it
+
+Exit codes:
+  0  Success
+  1  Unexpected error
+  2  Invalid arguments
+  3  Nothing detected
+  4  Every skill search failed (curated and pinned skills are still written)
+  5  Output file is missing or out of date (check)
 
 Examples:
-  $ skills-detector                    # Analyze and search for skills
-  $ skills-detector --json             # Output JSON only
-  $ skills-detector --skip-search      # Detection only, no skill search
+  $ skills-detector                    # Analyze, search for skills and write skills.json
+  $ skills-detector detect --json      # Output detection results as JSON
+  $ skills-detector --json             # Print skills.json without writing it
+  $ skills-detector detect --sample-files  # Rank languages by actual code volume
+  $ skills-detector explain            # Show why each item was detected
+  $ skills-detector recommend --limit 5  # Show the top recommendations only
   $ skills-detector -C ./my-project    # Analyze specific directory
+  $ skills-detector check              # Fail in CI when skills.json has drifted
+  $ skills-detector --format agents-md # Add an Agent Skills section to AGENTS.md
 
 Output:
   Writes skills.json with detected project info and recommended skills.
+  Skills added by hand are kept; generated skills whose detections are gone are flagged as stale.
   Use with skillman to install: npx skillman install
 `);
 }
@@ -116,133 +348,113 @@ function showVersion(): void {
 	console.log("skills-detector 0.0.1");
 }
 
-// Ecosystem-specific terms that indicate a skill is for a particular platform
-const ECOSYSTEM_MARKERS: Record<string, string[]> = {
-	expo: ["expo", "react-native", "mobile"],
-	"react-native": ["expo", "react-native", "mobile"],
-	flutter: ["flutter", "dart"],
-	android: ["android", "kotlin", "gradle"],
-	ios: ["ios", "swift", "xcode", "cocoapods"],
-	unity: ["unity", "gamedev"],
-};
-
 /**
- * Check if a skill result is relevant to the search term and project context
+ * Format detected languages, with their share of code when sampled
  */
-function isRelevantSkill(skillRef: string, term: string, detectedFrameworks: string[]): boolean {
-	const lowerRef = skillRef.toLowerCase();
-	const lowerTerm = term.toLowerCase();
-
-	// Check for word-boundary match (not just substring)
-	// This prevents "express" matching "expression"
-	const wordBoundaryRegex = new RegExp(`(^|[^a-z])${escapeRegex(lowerTerm)}([^a-z]|$)`);
-	const hasTermMatch = wordBoundaryRegex.test(lowerRef);
-
-	if (!hasTermMatch) {
-		// Handle hyphenated terms (e.g., "testing-library" should match "react-testing-library")
-		if (lowerTerm.includes("-") && lowerRef.includes(lowerTerm)) {
-			// Continue to ecosystem check
-		} else {
-			return false;
-		}
+function formatLanguages(detected: DetectionResult): string {
+	const breakdown = detected.languageBreakdown;
+	if (!breakdown) {
+		return detected.languages.join(", ");
 	}
 
-	// Check if the skill is for an ecosystem the project doesn't use
-	for (const [ecosystem, markers] of Object.entries(ECOSYSTEM_MARKERS)) {
-		// If any marker appears in the skill ref
-		const hasEcosystemMarker = markers.some((marker) => lowerRef.includes(marker));
-		if (hasEcosystemMarker) {
-			// Check if the project uses this ecosystem
-			const projectUsesEcosystem = detectedFrameworks.some(
-				(fw) => fw === ecosystem || markers.includes(fw.toLowerCase()),
-			);
-			if (!projectUsesEcosystem) {
-				return false; // Skill is for a different ecosystem
-			}
-		}
-	}
-
-	return true;
+	return detected.languages
+		.map((name) => {
+			const stat = breakdown.find((s) => s.name === name);
+			return stat ? `${name} (${stat.percentage}%)` : name;
+		})
+		.join(", ");
 }
 
-function escapeRegex(str: string): string {
-	return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
 }
 
 /**
- * Run 'npx skills find <term>' and parse the results
- * Returns the top relevant result or null if none found
+ * Print every detected item with its confidence and evidence
  */
-function searchSkills(term: string, detectedFrameworks: string[]): string | null {
-	try {
-		const output = execSync(`npx skills find ${term}`, {
-			encoding: "utf-8",
-			stdio: ["pipe", "pipe", "pipe"],
-			timeout: 30000,
-		});
-
-		// Strip ANSI codes and find lines matching owner/repo@skill pattern
-		// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape codes require control chars
-		const stripped = output.replace(/\x1b\[[0-9;]*m/g, "");
-		const matches = stripped.match(/^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]+@[a-zA-Z0-9_:-]+/gm);
-
-		if (!matches) return null;
+function showExplanation(detected: DetectionResult): void {
+	console.log("\nEvidence:");
 
-		// Find the first result that's actually relevant to the search term and project
-		for (const match of matches) {
-			if (isRelevantSkill(match, term, detectedFrameworks)) {
-				return match;
-			}
+	// Built-in categories first, then custom ones
+	const rank = (category: string) => {
+		const index = BUILTIN_CATEGORIES.indexOf(category);
+		return index === -1 ? BUILTIN_CATEGORIES.length : index;
+	};
+	const details = [...detected.details].sort((a, b) => rank(a.category) - rank(b.category));
+
+	for (const item of details) {
+		const version = item.version ? ` v${item.version}` : "";
+		console.log(
+			`  ${item.name}${version} (${item.category}, confidence ${item.confidence.toFixed(2)})`,
+		);
+		for (const evidence of item.evidence) {
+			console.log(`    - ${formatEvidence(evidence)}`);
 		}
-
-		return null;
-	} catch {
-		// Search failed (network error, timeout, etc.)
-		return null;
 	}
 }
 
-/**
- * Parse "owner/repo@skill" into source and skill name
- */
-function parseSkillRef(ref: string): { source: string; skill: string } {
-	const atIndex = ref.indexOf("@");
-	if (atIndex === -1) {
-		return { source: ref, skill: "" };
+function formatEvidence(evidence: Evidence): string {
+	switch (evidence.kind) {
+		case "dependency": {
+			const version = evidence.version ? `@${evidence.version}` : "";
+			const resolved = evidence.resolved ? ` (installed ${evidence.resolved})` : "";
+			const field = evidence.detail ? ` [${evidence.detail}]` : "";
+			return `dependency ${evidence.dependency}${version} in ${evidence.source}${resolved}${field}`;
+		}
+		case "requiredFiles":
+			return `required files ${evidence.source}`;
+		case "configFile":
+			return `config file ${evidence.source}${evidence.detail ? ` [${evidence.detail}]` : ""}`;
+		case "file":
+			return `file ${evidence.source}${evidence.detail ? ` [${evidence.detail}]` : ""}`;
+		case "sourceFiles":
+			return `${evidence.source}: ${evidence.detail}`;
+		case "config":
+			return `included by ${evidence.source}`;
+		case "transitiveDependency":
+			return `transitive dependency ${evidence.dependency}@${evidence.resolved} in ${evidence.source}`;
+		case "imports":
+		case "unimported":
+			return `${evidence.dependency} ${evidence.detail}`;
 	}
-	return {
-		source: ref.slice(0, atIndex),
-		skill: ref.slice(atIndex + 1),
-	};
 }
 
 /**
- * Group skill refs by source and dedupe
+ * Search provider chosen on the command line, if any (the project config applies otherwise)
  */
-function groupSkillsBySource(refs: string[]): SkillEntry[] {
-	const sourceMap = new Map<string, Set<string>>();
-
-	for (const ref of refs) {
-		const { source, skill } = parseSkillRef(ref);
-		if (!sourceMap.has(source)) {
-			sourceMap.set(source, new Set());
-		}
-		if (skill) {
-			sourceMap.get(source)?.add(skill);
-		}
+function resolveSearchProvider(options: CliOptions): SearchProviderConfig | undefined {
+	const provider = options.provider ?? (options.index ? "local" : options.registry && "http");
+
+	switch (provider) {
+		case undefined:
+			return undefined;
+		case "npx":
+			return { type: "npx" };
+		case "http":
+			return { type: "http", baseUrl: options.registry };
+		case "local":
+			if (!options.index) {
+				throw usageError("--provider local requires --index <path>");
+			}
+			return { type: "local", index: options.index };
+		default:
+			throw usageError(`Unknown search provider "${provider}" (expected npx, http or local)`);
 	}
+}
 
-	return Array.from(sourceMap.entries())
-		.map(([source, skills]) => ({
-			source,
-			skills: Array.from(skills).sort(),
-		}))
-		.sort((a, b) => a.source.localeCompare(b.source));
+function formatRecommendation({ ref, reason }: SkillRecommendation): string {
+	switch (reason.kind) {
+		case "pinned":
+			return `${ref} (pinned)`;
+		case "curated":
+			return reason.rationale ? `${ref} - ${reason.rationale}` : ref;
+		case "search":
+			return `${ref} (search: ${reason.terms.join(", ")}; score ${reason.score})`;
+	}
 }
 
 async function main(): Promise<void> {
-	const args = process.argv.slice(2);
-	const options = parseArgs(args);
+	const options = parseCliArgs(process.argv.slice(2));
 
 	if (options.help) {
 		showHelp();
@@ -254,136 +466,294 @@ async function main(): Promise<void> {
 		return;
 	}
 
+	const { command } = options;
 	const cwd = options.cwd ?? process.cwd();
+	const searchProvider = resolveSearchProvider(options);
 
-	// Detect project characteristics
-	const detected = await detect({ cwd });
-
-	if (options.json && options.skipSearch) {
-		// Just output detection results
-		console.log(JSON.stringify(detected, null, 2));
-		return;
+	// Load the project config once, for detection, recommendations and output
+	const config = (await loadConfig(cwd))?.config ?? {};
+	for (const writer of config.writers ?? []) {
+		registerWriter(writer);
 	}
 
-	if (!options.json) {
-		console.log("\nProject Analysis\n");
+	const writer = getWriter(options.format);
+	if (!writer) {
+		const formats = listWriters().map(({ name }) => name);
+		throw usageError(`Unknown format "${options.format}" (expected ${formats.join(", ")})`);
+	}
+	const outputPath =
+		options.output === undefined
+			? join(cwd, writer.defaultPath)
+			: options.output === "-"
+				? "-"
+				: resolve(options.output);
+	// Human-readable output is left out when stdout is reserved for JSON
+	const quiet = options.json || outputPath === "-";
 
-		if (detected.packageManager) {
-			console.log(`Pkg Manager: ${detected.packageManager}`);
-		}
-		if (detected.frameworks.length > 0) {
-			console.log(`Frameworks:  ${detected.frameworks.join(", ")}`);
-		}
-		if (detected.languages.length > 0) {
-			console.log(`Languages:   ${detected.languages.join(", ")}`);
-		}
-		if (detected.tools.length > 0) {
-			console.log(`Tools:       ${detected.tools.join(", ")}`);
-		}
-		if (detected.testing.length > 0) {
-			console.log(`Testing:     ${detected.testing.join(", ")}`);
+	// Detect project characteristics
+	const detected = await detect({
+		cwd,
+		config,
+		sampleFiles: options.sampleFiles,
+		scanImports: options.scanImports,
+		minConfidence: options.minConfidence,
+		versionedSearchTerms: options.versionedTerms,
+		transitive: options.transitive,
+	});
+	const nothingDetected = detected.searchTerms.length === 0;
+
+	if (quiet) {
+		if (command === "detect" || command === "explain") {
+			console.log(JSON.stringify(detected, null, 2));
 		}
+	} else {
+		showAnalysis(detected, options.explain);
 
-		if (detected.searchTerms.length === 0) {
+		if (nothingDetected) {
 			console.log("\nNo project characteristics detected.");
-			return;
+		} else {
+			console.log(`\nSearch terms: ${detected.searchTerms.join(", ")}`);
 		}
+	}
+
+	if (nothingDetected) {
+		process.exitCode = EXIT_CODES.nothingDetected;
+		return;
+	}
 
-		console.log(`\nSearch terms: ${detected.searchTerms.join(", ")}`);
+	if (command === "detect" || command === "explain") {
+		return;
 	}
 
-	if (options.skipSearch) {
+	if (command === "check" && options.skipSearch) {
+		// Without searching, only the detection results can be compared
+		const next = buildSkillsJson(detected, {
+			skills: [],
+			recommendations: [],
+			searchedTerms: [],
+			failedSearches: {},
+		});
+		const existing = readSkillsJson(outputPath);
+		const drift = existing ? diffSkillsJson(existing, next, false) : [];
+		reportCheck(outputPath, existing !== undefined, drift, options.json);
 		return;
 	}
 
-	// Start with curated/official skills based on detected frameworks and tools
-	const allSkillRefs: string[] = [];
-	const curatedTerms = [...detected.frameworks, ...detected.tools];
+	const result = await recommend(detected, {
+		cwd,
+		config,
+		catalogs: options.catalogs,
+		search: !options.skipSearch,
+		concurrency: options.concurrency,
+		limit: options.limit,
+		perTerm: options.perTerm,
+		cache: options.noCache ? false : { refresh: options.refresh },
+		...(searchProvider ? { provider: createSearchProvider(searchProvider, cwd) } : {}),
+		onCurated: (recommendations) => {
+			if (quiet) return;
+			if (recommendations.length > 0) {
+				console.log("\nCurated skills:");
+				for (const recommendation of recommendations) {
+					console.log(`  ${formatRecommendation(recommendation)}`);
+				}
+			}
+			if (!options.skipSearch) {
+				console.log("\nSearching for skills...");
+			}
+		},
+		onSearch: (term, results, error) => {
+			if (quiet) return;
+			const found = results.length > 0 ? `${results.length} found` : "(none)";
+			console.log(`  ${term}... ${error ? `failed (${error.message})` : found}`);
+		},
+	});
+
+	const failed = Object.keys(result.failedSearches);
+	const allFailed = failed.length > 0 && failed.length === result.searchedTerms.length;
+	if (allFailed && command === "check") {
+		// Without any search results, the committed file can't be compared
+		throw new CliError(
+			`Skill search failed: ${result.failedSearches[failed[0]]}`,
+			EXIT_CODES.searchFailed,
+		);
+	}
+	if (allFailed) {
+		console.error(
+			`\nWarning: skill search failed (${result.failedSearches[failed[0]]}), only curated and pinned skills are included`,
+		);
+	} else if (failed.length > 0) {
+		console.error(`\nWarning: search failed for ${failed.join(", ")}`);
+	}
 
-	for (const term of curatedTerms) {
-		const curated = CURATED_SKILLS[term];
-		if (curated) {
-			allSkillRefs.push(...curated);
+	const searched = result.recommendations.filter(({ reason }) => reason.kind === "search");
+	if (!quiet && searched.length > 0) {
+		console.log("\nTop search results:");
+		for (const recommendation of searched) {
+			console.log(`  ${formatRecommendation(recommendation)}`);
 		}
 	}
 
-	// Add web design guidelines for any web framework
-	const isWebApp = detected.frameworks.some((fw) => WEB_FRAMEWORKS.includes(fw));
-	if (isWebApp) {
-		allSkillRefs.push("vercel-labs/web-design-guidelines@web-design-guidelines");
+	// The curated and pinned skills are still reported (and written), but scripts can tell
+	// that the search results are missing
+	if (allFailed) {
+		process.exitCode = EXIT_CODES.searchFailed;
 	}
 
-	if (!options.json && allSkillRefs.length > 0) {
-		console.log("\nCurated skills:");
-		for (const ref of allSkillRefs) {
-			console.log(`  ${ref}`);
+	if (command === "recommend") {
+		if (options.json) {
+			console.log(JSON.stringify(result, null, 2));
 		}
+		return;
 	}
 
-	// Filter search terms:
-	// 1. Skip terms that already have curated skills
-	// 2. Skip generic language terms (javascript/typescript) when frameworks are detected
-	const curatedTermSet = new Set(Object.keys(CURATED_SKILLS));
-	let searchTerms = detected.searchTerms.filter((term) => !curatedTermSet.has(term));
+	const existing = outputPath === "-" ? undefined : readText(outputPath);
+	const { content, diff } = writer.render({
+		detection: detected,
+		result,
+		existing,
+		mode: options.mode === "overwrite" ? "overwrite" : "merge",
+	});
+
+	if (command === "check") {
+		const drift = existing === undefined ? [] : (writer.diff ?? diffLines)(existing, content);
+		reportCheck(outputPath, existing !== undefined, drift, options.json);
+		return;
+	}
 
-	// If we have frameworks, skip generic language skills (framework skills are better)
-	// Also if typescript is detected, skip javascript (typescript is a superset)
-	if (detected.frameworks.length > 0) {
-		searchTerms = searchTerms.filter((term) => term !== "javascript" && term !== "typescript");
-	} else if (searchTerms.includes("typescript")) {
-		// No frameworks but has typescript - skip javascript
-		searchTerms = searchTerms.filter((term) => term !== "javascript");
+	if (outputPath === "-") {
+		process.stdout.write(content);
+		return;
 	}
 
-	// Search for additional skills
-	if (!options.json) {
-		console.log("\nSearching for skills (top result per term)...");
+	const write = options.mode !== "dry-run";
+	if (write) {
+		mkdirSync(dirname(outputPath), { recursive: true });
+		writeFileSync(outputPath, content);
 	}
 
-	for (const term of searchTerms) {
-		if (!options.json) {
-			process.stdout.write(`  ${term}...`);
-		}
-		const topResult = searchSkills(term, detected.frameworks);
-		if (topResult) {
-			allSkillRefs.push(topResult);
-			if (!options.json) {
-				console.log(` ${topResult}`);
-			}
-		} else if (!options.json) {
-			console.log(" (none)");
+	if (options.json) {
+		console.log(JSON.stringify({ path: outputPath, written: write, diff }, null, 2));
+		return;
+	}
+
+	if (existing !== undefined) {
+		if (diff) {
+			showDiff(basename(outputPath), diff);
+		} else {
+			console.log(
+				`\n${basename(outputPath)} ${existing === content ? "is up to date" : "was updated"}`,
+			);
 		}
 	}
 
-	// Dedupe and group by source
-	const uniqueRefs = [...new Set(allSkillRefs)];
-	const skills = groupSkillsBySource(uniqueRefs);
+	if (!write) {
+		console.log(`\nDry run: ${outputPath} was not written`);
+		return;
+	}
 
-	// Build skills.json
-	const skillsJson: SkillsJson = {
-		$schema: "https://unpkg.com/skillman/skills_schema.json",
-		detected: {
-			...detected,
-			timestamp: new Date().toISOString(),
-		},
-		skills,
-	};
+	console.log(
+		`\nFound ${result.recommendations.length} skills from ${result.skills.length} sources`,
+	);
+	console.log(`Wrote ${outputPath}`);
+	if (writer.name === "skillman") {
+		console.log("\nInstall with: npx skillman install");
+	}
+}
 
-	if (options.json) {
-		console.log(JSON.stringify(skillsJson, null, 2));
-		return;
+/**
+ * Print the detected project characteristics
+ */
+function showAnalysis(detected: DetectionResult, explain?: boolean): void {
+	console.log("\nProject Analysis\n");
+
+	if (detected.packageManager) {
+		console.log(`Pkg Manager: ${detected.packageManager}`);
+	}
+	if (detected.frameworks.length > 0) {
+		console.log(`Frameworks:  ${detected.frameworks.join(", ")}`);
+	}
+	if (detected.languages.length > 0) {
+		console.log(`Languages:   ${formatLanguages(detected)}`);
+	}
+	if (detected.tools.length > 0) {
+		console.log(`Tools:       ${detected.tools.join(", ")}`);
+	}
+	if (detected.testing.length > 0) {
+		console.log(`Testing:     ${detected.testing.join(", ")}`);
+	}
+	if (detected.platforms.length > 0) {
+		console.log(`Platforms:   ${detected.platforms.join(", ")}`);
+	}
+	if (detected.ci.length > 0) {
+		console.log(`CI:          ${detected.ci.join(", ")}`);
+	}
+	if (detected.databases.length > 0) {
+		console.log(`Databases:   ${detected.databases.join(", ")}`);
+	}
+	for (const [category, names] of Object.entries(detected.custom ?? {})) {
+		console.log(`${`${capitalize(category)}:`.padEnd(13)}${names.join(", ")}`);
+	}
+	if (detected.workspaces) {
+		console.log(`Workspaces:  ${Object.keys(detected.workspaces).join(", ")}`);
 	}
 
-	// Write skills.json
-	const outputPath = join(cwd, SKILLS_JSON_FILE);
-	writeFileSync(outputPath, `${JSON.stringify(skillsJson, null, 2)}\n`);
+	if (explain) {
+		showExplanation(detected);
+	}
+}
 
-	console.log(`\nFound ${uniqueRefs.length} skills from ${skills.length} sources`);
-	console.log(`Wrote ${outputPath}`);
-	console.log("\nInstall with: npx skillman install");
+/**
+ * Report how the committed output file compares with a fresh run, failing when it has drifted
+ */
+function reportCheck(path: string, exists: boolean, drift: string[], json?: boolean): void {
+	const upToDate = exists && drift.length === 0;
+	if (!upToDate) {
+		process.exitCode = EXIT_CODES.outOfDate;
+	}
+
+	const file = basename(path);
+	if (json) {
+		console.log(JSON.stringify({ path, exists, upToDate, drift }, null, 2));
+	} else if (!exists) {
+		console.error(`\n${path} not found`);
+	} else if (upToDate) {
+		console.log(`\n${file} is up to date`);
+	} else {
+		console.error(`\n${file} is out of date:`);
+		for (const line of drift) {
+			console.error(`  ${line}`);
+		}
+		console.error("\nRun skills-detector to update it");
+	}
+}
+
+/**
+ * Show how the listed skills change compared to the existing file
+ */
+function showDiff(file: string, diff: SkillsJsonDiff): void {
+	const stale = Object.entries(diff.stale);
+	const changed = diff.added.length + diff.removed.length + stale.length > 0;
+	console.log(changed ? `\nChanges to ${file}:` : `\n${file} is up to date`);
+	for (const ref of diff.added) {
+		console.log(`  + ${ref}`);
+	}
+	for (const ref of diff.removed) {
+		console.log(`  - ${ref}`);
+	}
+	for (const ref of diff.kept) {
+		console.log(`  = ${ref} (manual)`);
+	}
+	for (const [ref, triggers] of stale) {
+		const reason =
+			triggers.length > 0 ? `${triggers.join(", ")} no longer detected` : "no longer recommended";
+		console.log(`  ! ${ref} (stale: ${reason})`);
+	}
 }
 
 main().catch((error) => {
 	console.error(`Error: ${error instanceof Error ? error.message : error}`);
-	process.exitCode = 1;
+	if (error instanceof CliError && error.exitCode === EXIT_CODES.invalidArgs) {
+		console.error("Run skills-detector --help for usage");
+	}
+	process.exitCode = error instanceof CliError ? error.exitCode : EXIT_CODES.error;
 });
@@ -0,0 +1,165 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import type { Detector } from "./detectors/registry.js";
+import { asRecord, readJson } from "./manifests/read.js";
+import type { SearchProviderConfig } from "./providers/index.js";
+import type { DetectionCategory } from "./types.js";
+import type { OutputWriter } from "./writers/index.js";
+
+/**
+ * Per-repository overrides, from skills-detector.config.{json,ts,mjs}
+ * or the "skillsDetector" key of package.json
+ */
+export interface SkillsDetectorConfig {
+	/** Detections to always report, by category (e.g. { tools: ["docker"] }) */
+	include?: Partial<Record<DetectionCategory, string[]>>;
+	/** Detection names to never report, in any category */
+	exclude?: string[];
+	/** Extra search terms for skill discovery */
+	searchTerms?: string[];
+	/** Skill refs ("owner/repo@skill") to always recommend */
+	pinSkills?: string[];
+	/** Skill refs, or whole sources ("owner/repo"), to never recommend */
+	blockSkills?: string[];
+	/** Owners ("owner") or sources ("owner/repo") whose search results rank higher, added to the built-in ones */
+	trustedSources?: string[];
+	/** Curated skills by detection name, replacing built-in catalog entries with the same id (an empty list removes an entry) */
+	curated?: Record<string, string[]>;
+	/** Catalog files (relative to the project root) layered on top of the built-in catalog */
+	catalogs?: string[];
+	/** Skill name markers per ecosystem, merged over the built-in ones used to filter search results */
+	ecosystemMarkers?: Record<string, string[]>;
+	/** Skill search backend (defaults to { type: "npx" }) */
+	searchProvider?: SearchProviderConfig;
+	/** Custom detectors (JavaScript/TypeScript config files only) */
+	detectors?: Detector[];
+	/** Custom output writers, selectable with --format (JavaScript/TypeScript config files only) */
+	writers?: OutputWriter[];
+}
+
+/**
+ * A config together with the file it was loaded from
+ */
+export interface LoadedConfig {
+	config: SkillsDetectorConfig;
+	/** Config file name, or "package.json" for the "skillsDetector" key */
+	source: string;
+}
+
+/**
+ * Config files looked up in the project root, in order
+ */
+export const CONFIG_FILES = [
+	"skills-detector.config.json",
+	"skills-detector.config.ts",
+	"skills-detector.config.mjs",
+];
+
+/**
+ * Type helper for skills-detector.config.ts / .mjs
+ */
+export function defineConfig(config: SkillsDetectorConfig): SkillsDetectorConfig {
+	return config;
+}
+
+/**
+ * Load the project config from `cwd`, if any.
+ * Throws if the config file cannot be loaded or is invalid.
+ */
+export async function loadConfig(cwd: string): Promise<LoadedConfig | undefined> {
+	for (const file of CONFIG_FILES) {
+		const path = join(cwd, file);
+		if (!existsSync(path)) continue;
+
+		const raw = file.endsWith(".json") ? readJson<unknown>(path) : await importConfig(path, file);
+		if (raw === undefined) {
+			throw new Error(`Could not parse ${file}`);
+		}
+		return { config: validateConfig(raw, file), source: file };
+	}
+
+	const packageJson = readJson<Record<string, unknown>>(join(cwd, "package.json"));
+	if (packageJson?.skillsDetector !== undefined) {
+		return {
+			config: validateConfig(packageJson.skillsDetector, "package.json#skillsDetector"),
+			source: "package.json",
+		};
+	}
+
+	return undefined;
+}
+
+async function importConfig(path: string, file: string): Promise<unknown> {
+	try {
+		const module = (await import(pathToFileURL(path).href)) as { default?: unknown };
+		return module.default;
+	} catch (error) {
+		if (
+			file.endsWith(".ts") &&
+			(error as { code?: string }).code === "ERR_UNKNOWN_FILE_EXTENSION"
+		) {
+			throw new Error(
+				`Loading ${file} requires a Node.js version with TypeScript support (23.6+); use skills-detector.config.mjs or .json instead`,
+			);
+		}
+		throw new Error(
+			`Could not load ${file}: ${error instanceof Error ? error.message : String(error)}`,
+		);
+	}
+}
+
+/**
+ * Check the shape of a config, throwing a descriptive error for invalid fields
+ */
+function validateConfig(value: unknown, source: string): SkillsDetectorConfig {
+	const config = asRecord(value);
+	if (config !== value) {
+		throw new Error(`Invalid config in ${source}: expected an object`);
+	}
+
+	const fail = (field: string, expected: string): never => {
+		throw new Error(`Invalid config in ${source}: "${field}" must be ${expected}`);
+	};
+	const isStringArray = (list: unknown) =>
+		Array.isArray(list) && list.every((item) => typeof item === "string");
+	const isListRecord = (record: unknown) =>
+		asRecord(record) === record && Object.values(asRecord(record)).every(isStringArray);
+
+	for (const field of [
+		"exclude",
+		"searchTerms",
+		"pinSkills",
+		"blockSkills",
+		"trustedSources",
+		"catalogs",
+	]) {
+		if (config[field] !== undefined && !isStringArray(config[field])) {
+			fail(field, "an array of strings");
+		}
+	}
+
+	for (const field of ["include", "curated", "ecosystemMarkers"]) {
+		if (config[field] !== undefined && !isListRecord(config[field])) {
+			fail(field, "an object mapping names to arrays of strings");
+		}
+	}
+
+	if (config.searchProvider !== undefined) {
+		const provider = asRecord(config.searchProvider);
+		if (!["npx", "http", "local"].includes(provider.type as string)) {
+			fail("searchProvider.type", '"npx", "http" or "local"');
+		}
+		if (provider.type === "local" && typeof provider.index !== "string") {
+			fail("searchProvider.index", "a path for the local provider");
+		}
+	}
+
+	for (const field of ["detectors", "writers"]) {
+		if (config[field] !== undefined && !Array.isArray(config[field])) {
+			fail(field, "an array");
+		}
+	}
+
+	return config as SkillsDetectorConfig;
+}
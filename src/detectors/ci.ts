@@ -0,0 +1,197 @@
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { findGlobMatches, isGlobPattern } from "../glob.js";
+import { readText } from "../manifests/read.js";
+import type { DetectedItem, DetectionContext, DetectionPattern, Evidence } from "../types.js";
+import { addEvidence, matchPatterns } from "./match.js";
+
+const CI_PATTERNS: DetectionPattern[] = [
+	{
+		name: "github-actions",
+		configFiles: [".github/workflows/*.yml", ".github/workflows/*.yaml"],
+	},
+	{
+		name: "gitlab-ci",
+		configFiles: [".gitlab-ci.yml"],
+	},
+	{
+		name: "circleci",
+		configFiles: [".circleci/config.yml"],
+	},
+	{
+		name: "azure-pipelines",
+		configFiles: ["azure-pipelines.yml", "azure-pipelines.yaml"],
+	},
+	{
+		name: "jenkins",
+		configFiles: ["Jenkinsfile"],
+	},
+	{
+		name: "bitbucket-pipelines",
+		configFiles: ["bitbucket-pipelines.yml"],
+	},
+];
+
+/**
+ * Keys and string values of a pipeline file, flattened for matching
+ */
+interface PipelineContent {
+	keys: Set<string>;
+	values: string[];
+}
+
+/**
+ * A notable kind of pipeline step, reported as its own CI item
+ */
+interface StepPattern {
+	name: string;
+	/** Step commands or actions (any match is enough) */
+	values?: RegExp[];
+	/** Keys configuring the step, e.g. a build matrix */
+	keys?: string[];
+	/** Only match pipelines triggered by pull/merge requests */
+	pullRequests?: boolean;
+}
+
+const STEP_PATTERNS: StepPattern[] = [
+	{
+		name: "release-automation",
+		values: [
+			/\bsemantic-release\b/,
+			/\brelease-please\b/,
+			/\bchangesets\/action\b/,
+			/\bgoreleaser\b/,
+			/\brelease-it\b/,
+			/\bsoftprops\/action-gh-release\b/,
+			/\bgh release create\b/,
+			/\b(?:npm|pnpm|yarn npm|cargo|gem|poetry) publish\b/,
+			/\btwine upload\b/,
+		],
+	},
+	{
+		name: "docker-build",
+		values: [
+			/\bdocker\/build-push-action\b/,
+			/\bdocker (?:buildx )?build\b/,
+			/\bdocker push\b/,
+			/\bkaniko\b/,
+			/\bbuildah bud\b/,
+			/^Docker@\d+$/,
+		],
+	},
+	{
+		name: "preview-deploys",
+		values: [
+			/\bpreview\b.*\bdeploy|\bdeploy\b.*\bpreview\b/i,
+			/\bhosting:channel:deploy\b/,
+			/\bamondnet\/vercel-action\b/,
+			/\bnwtgck\/actions-netlify\b/,
+			/\b(?:vercel|netlify|wrangler|flyctl|firebase|surge)\b.*\bdeploy\b/,
+			/\b(?:cloudflare\/(?:wrangler|pages)-action|superfly\/flyctl-actions)\b/,
+		],
+		pullRequests: true,
+	},
+	{
+		name: "matrix-testing",
+		keys: ["matrix"],
+	},
+];
+
+/**
+ * Keys and values that mark a pipeline triggered by pull/merge requests
+ * (GitHub Actions, Bitbucket and Azure keys, GitLab rules and Jenkins conditions)
+ */
+const PULL_REQUEST_KEYS = ["pull_request", "pull_request_target", "pull-requests", "pr"];
+const PULL_REQUEST_VALUES = [/^pull_request(?:_target)?$/, /merge_request/i, /\bchangeRequest\b/];
+
+/**
+ * Detect CI providers in the project, along with notable pipeline steps such as
+ * release automation, Docker builds, preview deploys and matrix testing
+ */
+export function detectCi(ctx: DetectionContext): DetectedItem[] {
+	const detected = matchPatterns(CI_PATTERNS, "ci", ctx);
+	if (detected.length === 0) return detected;
+
+	const files = CI_PATTERNS.flatMap((pattern) =>
+		(pattern.configFiles ?? []).flatMap((file) =>
+			isGlobPattern(file) ? findGlobMatches(ctx.cwd, file, { type: "file" }) : [file],
+		),
+	);
+
+	for (const file of files) {
+		const content = readText(join(ctx.cwd, file));
+		if (content === undefined) continue;
+
+		const pipeline = readPipeline(file, content);
+		for (const step of STEP_PATTERNS) {
+			const evidence = matchStep(step, pipeline, file);
+			if (evidence) addEvidence(detected, step.name, "ci", evidence);
+		}
+	}
+
+	return detected;
+}
+
+/**
+ * Flatten a pipeline file. YAML files are parsed, while Jenkinsfiles (and YAML that doesn't
+ * parse) are matched as text, with block and method names standing in for keys.
+ */
+function readPipeline(file: string, content: string): PipelineContent {
+	if (file.endsWith(".yml") || file.endsWith(".yaml")) {
+		try {
+			const pipeline: PipelineContent = { keys: new Set(), values: [] };
+			collectContent(parseYaml(content), pipeline);
+			return pipeline;
+		} catch {
+			// Fall through to matching the raw text
+		}
+	}
+
+	return {
+		keys: new Set([...content.matchAll(/\b(\w+)\s*[{(]/g)].map((match) => match[1])),
+		values: content.split("\n").map((line) => line.trim()),
+	};
+}
+
+function collectContent(value: unknown, pipeline: PipelineContent): void {
+	if (typeof value === "string") {
+		pipeline.values.push(...value.split("\n").map((line) => line.trim()));
+	} else if (Array.isArray(value)) {
+		for (const item of value) collectContent(item, pipeline);
+	} else if (value && typeof value === "object") {
+		for (const [key, item] of Object.entries(value)) {
+			pipeline.keys.add(key);
+			collectContent(item, pipeline);
+		}
+	}
+}
+
+/**
+ * Evidence of a step in a pipeline file, or undefined if the file doesn't have it
+ */
+function matchStep(
+	step: StepPattern,
+	pipeline: PipelineContent,
+	file: string,
+): Evidence | undefined {
+	if (step.pullRequests && !triggersOnPullRequests(pipeline)) return undefined;
+
+	const key = step.keys?.find((key) => pipeline.keys.has(key));
+	if (key) return { kind: "configFile", source: file, detail: key };
+
+	for (const value of pipeline.values) {
+		for (const pattern of step.values ?? []) {
+			const match = value.match(pattern);
+			if (match) return { kind: "configFile", source: file, detail: match[0] };
+		}
+	}
+
+	return undefined;
+}
+
+function triggersOnPullRequests(pipeline: PipelineContent): boolean {
+	return (
+		PULL_REQUEST_KEYS.some((key) => pipeline.keys.has(key)) ||
+		pipeline.values.some((value) => PULL_REQUEST_VALUES.some((pattern) => pattern.test(value)))
+	);
+}
@@ -0,0 +1,218 @@
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { findFirstMatch } from "../glob.js";
+import { asRecord, readText } from "../manifests/read.js";
+import type { DetectedItem, DetectionContext, DetectionPattern } from "../types.js";
+import { addEvidence, matchPatterns } from "./match.js";
+
+/**
+ * Database drivers and clients, per ecosystem
+ */
+const DATABASE_PATTERNS: DetectionPattern[] = [
+	{
+		name: "postgres",
+		dependencies: ["pg", "postgres", "@neondatabase/serverless", "@vercel/postgres"],
+		pythonDependencies: ["psycopg", "psycopg2", "psycopg2-binary", "asyncpg"],
+		goModules: ["github.com/jackc/pgx", "github.com/lib/pq"],
+		crates: ["postgres", "tokio-postgres"],
+		gems: ["pg"],
+	},
+	{
+		name: "mysql",
+		dependencies: ["mysql2", "mysql", "mariadb", "@planetscale/database"],
+		pythonDependencies: ["pymysql", "mysqlclient", "aiomysql", "mysql-connector-python"],
+		goModules: ["github.com/go-sql-driver/mysql"],
+		crates: ["mysql", "mysql_async"],
+		gems: ["mysql2", "trilogy"],
+	},
+	{
+		name: "sqlite",
+		dependencies: ["better-sqlite3", "sqlite3", "@libsql/client"],
+		pythonDependencies: ["aiosqlite", "libsql-client"],
+		goModules: ["github.com/mattn/go-sqlite3", "modernc.org/sqlite"],
+		crates: ["rusqlite", "libsql"],
+		gems: ["sqlite3"],
+	},
+	{
+		name: "mongodb",
+		dependencies: ["mongodb", "mongoose"],
+		pythonDependencies: ["pymongo", "motor", "beanie"],
+		goModules: ["go.mongodb.org/mongo-driver"],
+		crates: ["mongodb"],
+		gems: ["mongo", "mongoid"],
+	},
+	{
+		name: "redis",
+		dependencies: ["redis", "ioredis", "@upstash/redis", "@redis/client"],
+		pythonDependencies: ["redis"],
+		goModules: ["github.com/redis/go-redis", "github.com/go-redis/redis"],
+		crates: ["redis", "fred"],
+		gems: ["redis"],
+	},
+	{
+		name: "clickhouse",
+		dependencies: ["@clickhouse/client", "@clickhouse/client-web"],
+		pythonDependencies: ["clickhouse-connect", "clickhouse-driver"],
+		goModules: ["github.com/ClickHouse/clickhouse-go"],
+		crates: ["clickhouse"],
+	},
+	{
+		name: "sqlserver",
+		dependencies: ["mssql", "tedious"],
+		pythonDependencies: ["pyodbc", "pymssql"],
+		goModules: ["github.com/microsoft/go-mssqldb", "github.com/denisenkom/go-mssqldb"],
+		crates: ["tiberius"],
+	},
+];
+
+/**
+ * Database names used by Prisma providers, Drizzle dialects/drivers and connection URL
+ * schemes, mapped to the detected name
+ */
+const DATABASE_ALIASES: Record<string, string> = {
+	postgres: "postgres",
+	postgresql: "postgres",
+	pg: "postgres",
+	mysql: "mysql",
+	mysql2: "mysql",
+	mariadb: "mysql",
+	sqlite: "sqlite",
+	"better-sqlite": "sqlite",
+	libsql: "sqlite",
+	turso: "sqlite",
+	d1: "sqlite",
+	"d1-http": "sqlite",
+	mongodb: "mongodb",
+	"mongodb+srv": "mongodb",
+	redis: "redis",
+	rediss: "redis",
+	clickhouse: "clickhouse",
+	sqlserver: "sqlserver",
+	mssql: "sqlserver",
+	cockroachdb: "cockroachdb",
+};
+
+/**
+ * Docker image of a database server
+ */
+interface DatabaseImage {
+	database: string;
+	/** Matched against the image name without its tag */
+	image: RegExp;
+	/** Whether the tag is the database's version (not for compatible forks, defaults to true) */
+	versioned?: boolean;
+}
+
+const DATABASE_IMAGES: DatabaseImage[] = [
+	{ database: "postgres", image: /(?:^|\/)(?:postgres|postgresql|postgis|pgvector)$/ },
+	{ database: "postgres", image: /(?:^|\/)timescaledb(?:-ha)?$/, versioned: false },
+	{ database: "mysql", image: /(?:^|\/)(?:mysql|mysql-server)$/ },
+	{ database: "mysql", image: /(?:^|\/)(?:mariadb|percona-server)$/, versioned: false },
+	{ database: "mongodb", image: /(?:^|\/)(?:mongo|mongodb|mongodb-community-server)$/ },
+	{ database: "redis", image: /(?:^|\/)(?:redis|redis-stack|redis-stack-server)$/ },
+	{ database: "redis", image: /(?:^|\/)(?:valkey|keydb)$/, versioned: false },
+	{ database: "clickhouse", image: /(?:^|\/)clickhouse(?:-server)?$/ },
+	{ database: "sqlserver", image: /(?:^|\/)(?:mssql\/server|azure-sql-edge)$/ },
+	{ database: "cockroachdb", image: /(?:^|\/)cockroach$/ },
+];
+
+const PRISMA_SCHEMA = "prisma/schema.prisma";
+const DRIZZLE_CONFIG_FILES = [
+	"drizzle.config.ts",
+	"drizzle.config.js",
+	"drizzle.config.mjs",
+	"drizzle.config.json",
+];
+const COMPOSE_FILES = ["docker-compose.yml", "docker-compose.yaml", "compose.yml", "compose.yaml"];
+const ENV_TEMPLATE_FILES = [".env.example", ".env.sample", ".env.template"];
+
+/**
+ * Detect database engines in the project, from driver dependencies, the Prisma
+ * provider, the Drizzle dialect, Docker Compose services and example connection URLs
+ */
+export function detectDatabases(ctx: DetectionContext): DetectedItem[] {
+	// Driver versions say nothing about the database version
+	const detected = matchPatterns(DATABASE_PATTERNS, "databases", ctx).map(
+		({ version: _version, ...item }) => item,
+	);
+
+	const schema = readText(join(ctx.cwd, PRISMA_SCHEMA));
+	const provider = schema?.match(/datasource\s+\w+\s*\{[^}]*?\bprovider\s*=\s*"([\w+]+)"/)?.[1];
+	if (provider && DATABASE_ALIASES[provider]) {
+		addEvidence(detected, DATABASE_ALIASES[provider], "databases", {
+			kind: "configFile",
+			source: PRISMA_SCHEMA,
+			detail: `provider "${provider}"`,
+		});
+	}
+
+	const drizzleConfig = DRIZZLE_CONFIG_FILES.find((file) => findFirstMatch(ctx.cwd, file));
+	if (drizzleConfig) {
+		const content = readText(join(ctx.cwd, drizzleConfig)) ?? "";
+		// `dialect` replaced `driver` in drizzle-kit 0.21, where `driver` names a special driver
+		for (const field of ["dialect", "driver"]) {
+			const dialect = content.match(new RegExp(`\\b${field}["']?\\s*:\\s*["'\`]([\\w-]+)`))?.[1];
+			if (dialect && DATABASE_ALIASES[dialect]) {
+				addEvidence(detected, DATABASE_ALIASES[dialect], "databases", {
+					kind: "configFile",
+					source: drizzleConfig,
+					detail: `${field} "${dialect}"`,
+				});
+				break;
+			}
+		}
+	}
+
+	for (const file of COMPOSE_FILES) {
+		for (const [service, image] of composeImages(ctx.cwd, file)) {
+			const [name, tag = ""] = image.replace(/@.*$/, "").split(/:(?=[^/]*$)/);
+			const match = DATABASE_IMAGES.find((candidate) => candidate.image.test(name));
+			if (!match) continue;
+
+			const item = addEvidence(detected, match.database, "databases", {
+				kind: "configFile",
+				source: file,
+				detail: `service ${service} (${image})`,
+			});
+			if (match.versioned !== false) item.version ??= tag.match(/^v?(\d+)/)?.[1];
+		}
+	}
+
+	for (const file of ENV_TEMPLATE_FILES) {
+		const content = readText(join(ctx.cwd, file));
+		if (content === undefined) continue;
+
+		for (const [, variable, scheme] of content.matchAll(
+			/^\s*(?:export\s+)?(\w+)\s*=\s*["']?([a-z][\w+.-]*):\/\//gim,
+		)) {
+			const database = DATABASE_ALIASES[scheme.toLowerCase()];
+			if (database) {
+				addEvidence(detected, database, "databases", {
+					kind: "file",
+					source: file,
+					detail: `${variable} connection URL`,
+				});
+			}
+		}
+	}
+
+	return detected;
+}
+
+/**
+ * Images of the services in a Docker Compose file, as [service, image] pairs
+ */
+function composeImages(cwd: string, file: string): [string, string][] {
+	const content = readText(join(cwd, file));
+	if (content === undefined) return [];
+
+	try {
+		const services = asRecord(asRecord(parseYaml(content)).services);
+		return Object.entries(services).flatMap(([service, config]) => {
+			const image = asRecord(config).image;
+			return typeof image === "string" ? [[service, image] as [string, string]] : [];
+		});
+	} catch {
+		return [];
+	}
+}
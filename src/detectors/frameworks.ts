@@ -1,6 +1,5 @@
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-import type { DetectionContext, FrameworkPattern } from "../types.js";
+import type { DetectedItem, DetectionContext, FrameworkPattern } from "../types.js";
+import { matchPatterns } from "./match.js";
 
 /**
  * Framework detection patterns ordered by specificity (most specific first)
@@ -21,25 +20,30 @@ const FRAMEWORK_PATTERNS: FrameworkPattern[] = [
 		name: "astro",
 		configFiles: ["astro.config.mjs", "astro.config.ts", "astro.config.js"],
 		dependencies: ["astro"],
+		imported: false,
 	},
 	{
 		name: "nuxt",
 		configFiles: ["nuxt.config.js", "nuxt.config.ts"],
 		dependencies: ["nuxt", "nuxt3"],
+		imported: false,
 	},
 	{
 		name: "sveltekit",
 		configFiles: ["svelte.config.js", "svelte.config.ts"],
 		dependencies: ["@sveltejs/kit"],
+		imported: false,
 	},
 	{
 		name: "svelte",
 		dependencies: ["svelte"],
+		imported: false,
 	},
 	{
 		name: "vue",
 		configFiles: ["vue.config.js"],
 		dependencies: ["vue", "@vue/cli-service"],
+		imported: false,
 	},
 	{
 		name: "angular",
@@ -85,57 +89,97 @@ const FRAMEWORK_PATTERNS: FrameworkPattern[] = [
 	// Python Frameworks
 	{
 		name: "django",
-		configFiles: ["manage.py"],
 		requiredFiles: ["manage.py"],
+		pythonDependencies: ["django"],
 	},
 	{
 		name: "flask",
-		// Flask is typically detected via dependencies in pyproject.toml/requirements.txt
-		// We'll check for app.py as a common pattern
-		configFiles: ["app.py"],
+		pythonDependencies: ["flask"],
 	},
 	{
 		name: "fastapi",
-		configFiles: ["main.py"],
+		pythonDependencies: ["fastapi"],
+	},
+	{
+		name: "starlette",
+		pythonDependencies: ["starlette"],
+	},
+	{
+		name: "litestar",
+		pythonDependencies: ["litestar"],
+	},
+	{
+		name: "streamlit",
+		pythonDependencies: ["streamlit"],
 	},
 
 	// Ruby Frameworks
 	{
 		name: "rails",
-		configFiles: ["config/application.rb"],
 		requiredFiles: ["Gemfile", "config/application.rb"],
+		gems: ["rails", "railties"],
 	},
 	{
 		name: "sinatra",
-		// Detected via Gemfile
+		gems: ["sinatra"],
+	},
+	{
+		name: "hanami",
+		gems: ["hanami"],
+	},
+	{
+		name: "roda",
+		gems: ["roda"],
 	},
 
 	// Go Frameworks
 	{
 		name: "gin",
-		// Detected via go.mod
+		goModules: ["github.com/gin-gonic/gin"],
 	},
 	{
 		name: "echo",
-		// Detected via go.mod
+		goModules: ["github.com/labstack/echo"],
 	},
 	{
 		name: "fiber",
-		// Detected via go.mod
+		goModules: ["github.com/gofiber/fiber"],
+	},
+	{
+		name: "chi",
+		goModules: ["github.com/go-chi/chi"],
 	},
 
 	// Rust Frameworks
 	{
 		name: "actix",
-		// Detected via Cargo.toml
+		crates: ["actix-web"],
 	},
 	{
 		name: "axum",
-		// Detected via Cargo.toml
+		crates: ["axum"],
 	},
 	{
 		name: "rocket",
-		// Detected via Cargo.toml
+		crates: ["rocket"],
+	},
+	{
+		name: "tauri",
+		configFiles: ["src-tauri/tauri.conf.json"],
+		dependencies: ["@tauri-apps/api"],
+		crates: ["tauri"],
+	},
+	{
+		name: "leptos",
+		crates: ["leptos"],
+	},
+	{
+		name: "dioxus",
+		crates: ["dioxus"],
+	},
+	{
+		name: "yew",
+		crates: ["yew"],
 	},
 
 	// Java/Kotlin Frameworks
@@ -148,36 +192,6 @@ const FRAMEWORK_PATTERNS: FrameworkPattern[] = [
 /**
  * Detect frameworks in the project
  */
-export function detectFrameworks(ctx: DetectionContext): string[] {
-	const detected: string[] = [];
-
-	for (const pattern of FRAMEWORK_PATTERNS) {
-		if (matchesPattern(pattern, ctx)) {
-			detected.push(pattern.name);
-		}
-	}
-
-	return detected;
-}
-
-function matchesPattern(pattern: FrameworkPattern, ctx: DetectionContext): boolean {
-	// Check required files (all must exist)
-	if (pattern.requiredFiles) {
-		const allExist = pattern.requiredFiles.every((file) => existsSync(join(ctx.cwd, file)));
-		if (allExist) return true;
-	}
-
-	// Check config files (any one existing is enough)
-	if (pattern.configFiles) {
-		const anyExists = pattern.configFiles.some((file) => existsSync(join(ctx.cwd, file)));
-		if (anyExists) return true;
-	}
-
-	// Check dependencies
-	if (pattern.dependencies) {
-		const hasAnyDep = pattern.dependencies.some((dep) => dep in ctx.allDependencies);
-		if (hasAnyDep) return true;
-	}
-
-	return false;
+export function detectFrameworks(ctx: DetectionContext): DetectedItem[] {
+	return matchPatterns(FRAMEWORK_PATTERNS, "frameworks", ctx);
 }
@@ -0,0 +1,244 @@
+import { extname, join } from "node:path";
+import { readText } from "../manifests/read.js";
+import type { DetectedItem, Evidence } from "../types.js";
+import { type WalkOptions, walkFiles } from "../walk.js";
+import { scoreEvidence } from "./match.js";
+
+export interface ImportScanOptions extends Omit<WalkOptions, "deadline" | "maxFiles"> {
+	/** Stop after scanning this many source files (defaults to 2000) */
+	maxFiles?: number;
+	/** Stop after this many milliseconds (defaults to 2000) */
+	timeBudget?: number;
+	/** Skip files larger than this many bytes, usually generated or bundled (defaults to 512 KB) */
+	maxFileSize?: number;
+}
+
+/**
+ * Imports found in the project's source files
+ */
+export interface ImportScan {
+	/**
+	 * Number of files importing each module: npm package names, Python top-level modules,
+	 * Go import paths and Rust crate names
+	 */
+	modules: Record<string, number>;
+	/** Number of source files scanned */
+	files: number;
+	/** Whether the scan stopped early, at the file limit or time budget */
+	truncated: boolean;
+}
+
+const DEFAULT_MAX_FILES = 2000;
+const DEFAULT_TIME_BUDGET = 2000;
+const DEFAULT_MAX_FILE_SIZE = 512 * 1024;
+
+type ImportExtractor = (content: string) => string[];
+
+const JS_IMPORT_PATTERNS = [
+	// import x from "a", import { x } from "a", export * from "a"
+	/^\s*(?:import|export)\s[^'"]*?\sfrom\s*['"]([^'"]+)['"]/gm,
+	// import "a"
+	/^\s*import\s*['"]([^'"]+)['"]/gm,
+	// require("a"), import("a")
+	/\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+const RUST_BUILTIN_CRATES = new Set(["crate", "self", "super", "std", "core", "alloc"]);
+
+/**
+ * Import extractors by file extension
+ */
+const EXTRACTORS: Record<string, ImportExtractor> = {
+	".ts": extractJsImports,
+	".tsx": extractJsImports,
+	".mts": extractJsImports,
+	".cts": extractJsImports,
+	".js": extractJsImports,
+	".jsx": extractJsImports,
+	".mjs": extractJsImports,
+	".cjs": extractJsImports,
+	".py": extractPythonImports,
+	".go": extractGoImports,
+	".rs": extractRustImports,
+};
+
+/**
+ * Extract the modules a source file imports, based on its extension.
+ * Relative imports and built-in modules are left out.
+ */
+export function extractImports(path: string, content: string): string[] {
+	const extractor = EXTRACTORS[extname(path).toLowerCase()];
+	return extractor ? [...new Set(extractor(content))] : [];
+}
+
+function extractJsImports(content: string): string[] {
+	const modules: string[] = [];
+	for (const pattern of JS_IMPORT_PATTERNS) {
+		for (const match of content.matchAll(pattern)) {
+			const name = packageName(match[1]);
+			if (name) modules.push(name);
+		}
+	}
+	return modules;
+}
+
+/**
+ * Package name of an import specifier ("@scope/pkg/sub" -> "@scope/pkg"),
+ * or undefined for relative, absolute, subpath ("#x") and protocol ("node:fs") imports
+ */
+function packageName(specifier: string): string | undefined {
+	if (/^[./#~]/.test(specifier) || specifier.includes(":")) return undefined;
+	const parts = specifier.split("/");
+	return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+function extractPythonImports(content: string): string[] {
+	const modules: string[] = [];
+	for (const match of content.matchAll(
+		/^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm,
+	)) {
+		for (const name of match[1].split(",")) {
+			modules.push(name.trim().split(/[.\s]/)[0]);
+		}
+	}
+	for (const match of content.matchAll(/^\s*from\s+(\w[\w.]*)\s+import\b/gm)) {
+		modules.push(match[1].split(".")[0]);
+	}
+	return modules;
+}
+
+function extractGoImports(content: string): string[] {
+	const modules: string[] = [];
+	for (const match of content.matchAll(/^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+		modules.push(match[1]);
+	}
+	for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+		for (const match of block[1].matchAll(/^\s*(?:[\w.]+\s+)?"([^"]+)"/gm)) {
+			modules.push(match[1]);
+		}
+	}
+	// Standard library packages have no domain in their path
+	return modules.filter((path) => path.split("/")[0].includes("."));
+}
+
+function extractRustImports(content: string): string[] {
+	const modules: string[] = [];
+	for (const match of content.matchAll(/^\s*(?:pub(?:\([^)]*\))?\s+)?use\s+:{0,2}(\w+)::/gm)) {
+		modules.push(match[1]);
+	}
+	for (const match of content.matchAll(/^\s*extern\s+crate\s+(\w+)/gm)) {
+		modules.push(match[1]);
+	}
+	return modules.filter((name) => !RUST_BUILTIN_CRATES.has(name));
+}
+
+/**
+ * Walk source files (respecting .gitignore) and count the files importing each module,
+ * within a file count and time budget
+ */
+export function scanImports(cwd: string, options: ImportScanOptions = {}): ImportScan {
+	const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+	const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+	const deadline = Date.now() + (options.timeBudget ?? DEFAULT_TIME_BUDGET);
+
+	const modules: Record<string, number> = {};
+	let files = 0;
+	let truncated = false;
+
+	walkFiles(cwd, { ...options, maxFiles: undefined, deadline }, ({ path, size }) => {
+		if (!EXTRACTORS[extname(path).toLowerCase()] || size > maxFileSize) return false;
+		if (files >= maxFiles) {
+			truncated = true;
+			return true;
+		}
+
+		files++;
+		for (const name of extractImports(path, readText(join(cwd, path)) ?? "")) {
+			modules[name] = (modules[name] ?? 0) + 1;
+		}
+		return false;
+	});
+
+	return { modules, files, truncated: truncated || Date.now() > deadline };
+}
+
+/**
+ * Number of scanned files importing a dependency. Go modules also match their packages,
+ * and Python/Rust names match with hyphens as underscores (packages imported under
+ * another name, like python-dotenv, are not matched).
+ */
+export function countImports(scan: ImportScan, dependency: string): number {
+	const normalized = dependency.toLowerCase().replace(/-/g, "_");
+	let count = 0;
+	for (const [name, files] of Object.entries(scan.modules)) {
+		if (
+			name === dependency ||
+			name.startsWith(`${dependency}/`) ||
+			name.toLowerCase() === normalized
+		) {
+			count = Math.max(count, files);
+		}
+	}
+	return count;
+}
+
+/**
+ * Add import evidence to items detected from dependencies, and count the files importing
+ * each of them. Items whose dependencies are never imported get `unimported` evidence,
+ * which halves their confidence, unless the scan stopped early or the item is used
+ * without being imported (`imported: false`).
+ */
+export function applyImportScan(
+	details: DetectedItem[],
+	scan: ImportScan,
+): { details: DetectedItem[]; imports: Record<string, number> } {
+	const imports: Record<string, number> = {};
+
+	const updated = details.map((item) => {
+		const dependencies = [
+			...new Set(
+				item.evidence
+					.filter(
+						(evidence) =>
+							(evidence.kind === "dependency" || evidence.kind === "transitiveDependency") &&
+							// Ruby sources aren't scanned
+							!evidence.source.endsWith("Gemfile"),
+					)
+					.map((evidence) => evidence.dependency)
+					.filter((dependency): dependency is string => dependency !== undefined),
+			),
+		];
+		if (dependencies.length === 0) return item;
+
+		const counts = dependencies.map((dependency) => ({
+			dependency,
+			files: countImports(scan, dependency),
+		}));
+		const top = counts.reduce((best, count) => (count.files > best.files ? count : best));
+
+		let evidence: Evidence | undefined;
+		if (top.files > 0) {
+			imports[item.name] = Math.max(imports[item.name] ?? 0, top.files);
+			evidence = {
+				kind: "imports",
+				source: "source files",
+				dependency: top.dependency,
+				detail: `imported in ${top.files} of ${scan.files} files`,
+			};
+		} else if (!scan.truncated && item.imported !== false) {
+			imports[item.name] ??= 0;
+			evidence = {
+				kind: "unimported",
+				source: "source files",
+				dependency: top.dependency,
+				detail: `not imported in ${scan.files} files`,
+			};
+		}
+		if (!evidence) return item;
+
+		const itemEvidence = [...item.evidence, evidence];
+		return { ...item, evidence: itemEvidence, confidence: scoreEvidence(itemEvidence) };
+	});
+
+	return { details: updated, imports };
+}
@@ -1,4 +1,7 @@
+export { detectCi } from "./ci.js";
+export { detectDatabases } from "./databases.js";
 export { detectFrameworks } from "./frameworks.js";
 export { detectLanguages } from "./languages.js";
+export { detectPlatforms } from "./platforms.js";
 export { detectTesting } from "./testing.js";
 export { detectTools } from "./tools.js";
@@ -1,120 +1,204 @@
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-import type { DetectionContext } from "../types.js";
+import { extname } from "node:path";
+import type { DetectedItem, DetectionContext, DetectionPattern, LanguageStat } from "../types.js";
+import { type WalkOptions, walkFiles } from "../walk.js";
+import { matchPatterns, scoreEvidence } from "./match.js";
 
-interface LanguagePattern {
-	name: string;
-	/** Files that indicate this language */
-	files?: string[];
+interface LanguagePattern extends DetectionPattern {
 	/** File extensions to look for */
 	extensions?: string[];
-	/** Package.json dependencies that indicate this language */
-	dependencies?: string[];
 }
 
+/**
+ * Languages below this share of sampled source bytes are considered incidental
+ */
+export const INCIDENTAL_LANGUAGE_PERCENTAGE = 5;
+
+/**
+ * Highest confidence reported for an incidental language
+ */
+const INCIDENTAL_LANGUAGE_CONFIDENCE = 0.5;
+
 const LANGUAGE_PATTERNS: LanguagePattern[] = [
 	{
 		name: "typescript",
+		extensions: [".ts", ".tsx", ".mts", ".cts"],
 		files: ["tsconfig.json", "tsconfig.base.json"],
 		dependencies: ["typescript"],
+		imported: false,
 	},
 	{
 		name: "javascript",
+		extensions: [".js", ".jsx", ".mjs", ".cjs"],
 		files: ["package.json", "jsconfig.json"],
 	},
 	{
 		name: "python",
-		files: ["requirements.txt", "pyproject.toml", "setup.py", "Pipfile", "poetry.lock"],
+		extensions: [".py", ".pyi"],
+		files: [
+			"requirements.txt",
+			"pyproject.toml",
+			"setup.py",
+			"setup.cfg",
+			"Pipfile",
+			"poetry.lock",
+			"uv.lock",
+		],
 	},
 	{
 		name: "ruby",
+		extensions: [".rb", ".rake"],
 		files: ["Gemfile", "Gemfile.lock", ".ruby-version"],
 	},
 	{
 		name: "go",
+		extensions: [".go"],
 		files: ["go.mod", "go.sum"],
 	},
 	{
 		name: "rust",
+		extensions: [".rs"],
 		files: ["Cargo.toml", "Cargo.lock"],
 	},
 	{
 		name: "java",
+		extensions: [".java"],
 		files: ["pom.xml", "build.gradle"],
 	},
 	{
 		name: "kotlin",
+		extensions: [".kt", ".kts"],
 		files: ["build.gradle.kts"],
 	},
 	{
 		name: "swift",
+		extensions: [".swift"],
 		files: ["Package.swift", "*.xcodeproj", "*.xcworkspace"],
 	},
 	{
 		name: "php",
+		extensions: [".php"],
 		files: ["composer.json", "composer.lock"],
 	},
 	{
 		name: "csharp",
-		files: ["*.csproj", "*.sln"],
+		extensions: [".cs"],
+		// Projects nested deeper are listed in a solution file
+		files: ["*.sln", "*.csproj", "*/*.csproj"],
 	},
 	{
 		name: "elixir",
+		extensions: [".ex", ".exs"],
 		files: ["mix.exs", "mix.lock"],
 	},
+	{
+		name: "fsharp",
+		extensions: [".fs", ".fsi", ".fsx"],
+		files: ["*.fsproj", "*/*.fsproj"],
+		// Only search nested projects of a solution, which may be C# only
+		requiredFiles: ["*.sln", "**/*.fsproj"],
+	},
 	{
 		name: "scala",
+		extensions: [".scala", ".sc"],
 		files: ["build.sbt"],
 	},
 	{
 		name: "clojure",
+		extensions: [".clj", ".cljs", ".cljc"],
 		files: ["project.clj", "deps.edn"],
 	},
 	{
 		name: "haskell",
+		extensions: [".hs"],
 		files: ["stack.yaml", "cabal.project"],
 	},
 	{
 		name: "zig",
+		extensions: [".zig"],
 		files: ["build.zig"],
 	},
 ];
 
 /**
- * Detect programming languages in the project
+ * Detect programming languages in the project from marker files and dependencies
  */
-export function detectLanguages(ctx: DetectionContext): string[] {
-	const detected: string[] = [];
+export function detectLanguages(ctx: DetectionContext): DetectedItem[] {
+	return matchPatterns(LANGUAGE_PATTERNS, "languages", ctx);
+}
 
-	for (const pattern of LANGUAGE_PATTERNS) {
-		if (matchesLanguagePattern(pattern, ctx)) {
-			detected.push(pattern.name);
-		}
+/**
+ * Reorder and filter detected languages using a sampled breakdown, adding the sampled
+ * source files as evidence. Languages are ordered by code volume, languages without any
+ * source files are dropped, and languages with enough code are included even without
+ * a marker file.
+ */
+export function refineLanguages(
+	detected: DetectedItem[],
+	breakdown: LanguageStat[],
+): DetectedItem[] {
+	const refined: DetectedItem[] = [];
+
+	for (const stat of breakdown) {
+		const existing = detected.find((item) => item.name === stat.name);
+		const incidental = stat.percentage < INCIDENTAL_LANGUAGE_PERCENTAGE;
+		if (!existing && incidental) continue;
+
+		const evidence = [
+			...(existing?.evidence ?? []),
+			{
+				kind: "sourceFiles" as const,
+				source: "source files",
+				detail: `${stat.files} files, ${stat.percentage}% of code`,
+			},
+		];
+		const confidence = scoreEvidence(evidence);
+
+		refined.push({
+			name: stat.name,
+			category: "languages",
+			confidence: incidental ? Math.min(confidence, INCIDENTAL_LANGUAGE_CONFIDENCE) : confidence,
+			...(existing?.version ? { version: existing.version } : {}),
+			...(existing?.imported === false ? { imported: false } : {}),
+			evidence,
+		});
 	}
 
-	return detected;
+	return refined;
 }
 
-function matchesLanguagePattern(pattern: LanguagePattern, ctx: DetectionContext): boolean {
-	// Check files
-	if (pattern.files) {
-		for (const file of pattern.files) {
-			// Handle glob patterns like *.csproj
-			if (file.includes("*")) {
-				// Skip glob patterns for now - would need to implement glob matching
-				continue;
-			}
-			if (existsSync(join(ctx.cwd, file))) {
-				return true;
-			}
+/**
+ * Walk source files (respecting .gitignore) and compute a language breakdown
+ * by file count and bytes, sorted by share of bytes
+ */
+export function sampleLanguages(cwd: string, options: WalkOptions = {}): LanguageStat[] {
+	const languageByExtension = new Map<string, string>();
+	for (const pattern of LANGUAGE_PATTERNS) {
+		for (const extension of pattern.extensions ?? []) {
+			languageByExtension.set(extension, pattern.name);
 		}
 	}
 
-	// Check dependencies
-	if (pattern.dependencies) {
-		const hasAnyDep = pattern.dependencies.some((dep) => dep in ctx.allDependencies);
-		if (hasAnyDep) return true;
-	}
+	const totals = new Map<string, { files: number; bytes: number }>();
+	let totalBytes = 0;
+
+	walkFiles(cwd, options, ({ path, size }) => {
+		const language = languageByExtension.get(extname(path).toLowerCase());
+		if (!language) return false;
+
+		const total = totals.get(language) ?? { files: 0, bytes: 0 };
+		total.files++;
+		total.bytes += size;
+		totals.set(language, total);
+		totalBytes += size;
+		return false;
+	});
 
-	return false;
+	return Array.from(totals.entries())
+		.map(([name, { files, bytes }]) => ({
+			name,
+			files,
+			bytes,
+			percentage: totalBytes > 0 ? Math.round((bytes / totalBytes) * 1000) / 10 : 0,
+		}))
+		.sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
 }
@@ -0,0 +1,225 @@
+import { findFirstMatch } from "../glob.js";
+import { normalizeCrateName } from "../manifests/cargo.js";
+import { matchesGoModule } from "../manifests/go.js";
+import { normalizePythonName } from "../manifests/python.js";
+import type {
+	DetectedItem,
+	DetectionCategory,
+	DetectionContext,
+	DetectionPattern,
+	Evidence,
+	EvidenceKind,
+} from "../types.js";
+import { majorVersion } from "../versions.js";
+
+/**
+ * How strongly a single piece of evidence indicates an item
+ * (negative for evidence against it, which scales the confidence down)
+ */
+const EVIDENCE_WEIGHTS: Record<EvidenceKind, number> = {
+	requiredFiles: 0.9,
+	dependency: 0.9,
+	configFile: 0.8,
+	file: 0.6,
+	sourceFiles: 0.9,
+	transitiveDependency: 0.3,
+	config: 1,
+	imports: 0.95,
+	unimported: -0.5,
+};
+
+/**
+ * Match every pattern against the project, returning detected items in pattern order
+ */
+export function matchPatterns(
+	patterns: DetectionPattern[],
+	category: DetectionCategory,
+	ctx: DetectionContext,
+): DetectedItem[] {
+	const detected: DetectedItem[] = [];
+
+	for (const pattern of patterns) {
+		const evidence = collectEvidence(pattern, ctx);
+		if (evidence.length > 0) {
+			const version = resolveMajorVersion(evidence);
+			detected.push({
+				name: pattern.name,
+				category,
+				confidence: scoreEvidence(evidence),
+				...(version ? { version } : {}),
+				...(pattern.imported === false ? { imported: false } : {}),
+				evidence,
+			});
+		}
+	}
+
+	return detected;
+}
+
+/**
+ * Collect all evidence for a pattern (empty if the pattern doesn't match)
+ */
+export function collectEvidence(pattern: DetectionPattern, ctx: DetectionContext): Evidence[] {
+	const evidence: Evidence[] = [];
+
+	// Required files (all must exist, so later and costlier globs are only searched
+	// once the earlier files were found)
+	if (pattern.requiredFiles) {
+		const found: string[] = [];
+		for (const file of pattern.requiredFiles) {
+			const path = findFirstMatch(ctx.cwd, file);
+			if (!path) break;
+			found.push(path);
+		}
+		if (found.length === pattern.requiredFiles.length) {
+			evidence.push({ kind: "requiredFiles", source: found.join(", ") });
+		}
+	}
+
+	// Config files (any one existing is enough)
+	for (const file of pattern.configFiles ?? []) {
+		const path = findFirstMatch(ctx.cwd, file);
+		if (path) evidence.push({ kind: "configFile", source: path });
+	}
+
+	// Other files/directories
+	for (const file of pattern.files ?? []) {
+		const path = findFirstMatch(ctx.cwd, file);
+		if (path) evidence.push({ kind: "file", source: path });
+	}
+
+	evidence.push(...collectDependencyEvidence(pattern, ctx));
+
+	return evidence;
+}
+
+/**
+ * Collect evidence for dependencies listed by the pattern, in any ecosystem
+ */
+function collectDependencyEvidence(pattern: DetectionPattern, ctx: DetectionContext): Evidence[] {
+	const evidence: Evidence[] = [];
+
+	const add = (
+		source: string,
+		dependency: string,
+		version: string,
+		resolved?: string,
+		detail?: string,
+	) => {
+		evidence.push({
+			kind: "dependency",
+			source,
+			dependency,
+			...(version ? { version } : {}),
+			...(resolved ? { resolved } : {}),
+			...(detail ? { detail } : {}),
+		});
+	};
+
+	for (const dep of pattern.dependencies ?? []) {
+		if (dep in ctx.allDependencies) {
+			add(
+				"package.json",
+				dep,
+				ctx.allDependencies[dep],
+				ctx.lockedVersions?.[dep],
+				describeDependencyField(ctx, dep),
+			);
+		} else if (ctx.transitiveDependencies && dep in ctx.transitiveDependencies) {
+			// Installed only as a dependency of another package
+			evidence.push({
+				kind: "transitiveDependency",
+				source: ctx.lockfile ?? "lockfile",
+				dependency: dep,
+				resolved: ctx.transitiveDependencies[dep],
+			});
+		}
+	}
+
+	for (const dep of pattern.pythonDependencies ?? []) {
+		const name = normalizePythonName(dep);
+		if (name in ctx.pythonDependencies) {
+			add(ctx.pythonManifests?.[name] ?? "pyproject.toml", name, ctx.pythonDependencies[name]);
+		}
+	}
+
+	for (const [path, version] of Object.entries(ctx.goModules)) {
+		if (pattern.goModules?.some((dep) => matchesGoModule(path, dep))) {
+			add("go.mod", path, version);
+		}
+	}
+
+	for (const dep of pattern.crates ?? []) {
+		const name = normalizeCrateName(dep);
+		if (name in ctx.crates) add("Cargo.toml", name, ctx.crates[name]);
+	}
+
+	for (const dep of pattern.gems ?? []) {
+		if (dep in ctx.gems) add("Gemfile", dep, ctx.gems[dep]);
+	}
+
+	return evidence;
+}
+
+/**
+ * Note peer and optional dependencies, which are not necessarily used directly
+ */
+function describeDependencyField(ctx: DetectionContext, dep: string): string | undefined {
+	const packageJson = ctx.packageJson;
+	if (packageJson?.dependencies?.[dep] || packageJson?.devDependencies?.[dep]) return undefined;
+	if (packageJson?.peerDependencies?.[dep]) return "peer dependency";
+	if (packageJson?.optionalDependencies?.[dep]) return "optional dependency";
+	return undefined;
+}
+
+/**
+ * Major version of the first dependency whose version is known,
+ * preferring the installed version over the declared range
+ */
+export function resolveMajorVersion(evidence: Evidence[]): string | undefined {
+	for (const item of evidence) {
+		const major = majorVersion(item.resolved) ?? majorVersion(item.version);
+		if (major) return major;
+	}
+	return undefined;
+}
+
+/**
+ * Combine evidence into a confidence score: each piece of evidence
+ * independently reduces the chance of a false positive, and evidence
+ * against the item scales the result down
+ */
+export function scoreEvidence(evidence: Evidence[]): number {
+	let miss = 1;
+	let penalty = 1;
+	for (const item of evidence) {
+		const weight = EVIDENCE_WEIGHTS[item.kind];
+		if (weight < 0) {
+			penalty *= 1 + weight;
+		} else {
+			miss *= 1 - weight;
+		}
+	}
+	return Math.round((1 - miss) * penalty * 100) / 100;
+}
+
+/**
+ * Add evidence found by a detector's own checks to an item, detecting the item if
+ * no pattern matched it. Returns the updated item.
+ */
+export function addEvidence(
+	detected: DetectedItem[],
+	name: string,
+	category: DetectionCategory,
+	evidence: Evidence,
+): DetectedItem {
+	let item = detected.find((other) => other.name === name && other.category === category);
+	if (item) {
+		item.evidence.push(evidence);
+		item.confidence = scoreEvidence(item.evidence);
+	} else {
+		item = { name, category, confidence: scoreEvidence([evidence]), evidence: [evidence] };
+		detected.push(item);
+	}
+	return item;
+}
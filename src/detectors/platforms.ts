@@ -0,0 +1,105 @@
+import { join } from "node:path";
+import { asRecord, readJson } from "../manifests/read.js";
+import type { DetectedItem, DetectionContext, DetectionPattern } from "../types.js";
+import { addEvidence, matchPatterns } from "./match.js";
+
+const PLATFORM_PATTERNS: DetectionPattern[] = [
+	{
+		name: "vercel",
+		configFiles: ["vercel.json"],
+		files: [".vercel/"],
+		dependencies: [
+			"vercel",
+			"@vercel/node",
+			"@vercel/functions",
+			"@vercel/analytics",
+			"@vercel/speed-insights",
+			"@sveltejs/adapter-vercel",
+			"@astrojs/vercel",
+		],
+		imported: false,
+	},
+	{
+		name: "netlify",
+		configFiles: ["netlify.toml"],
+		files: ["netlify/functions/", "netlify/edge-functions/"],
+		dependencies: [
+			"netlify-cli",
+			"@netlify/functions",
+			"@netlify/edge-functions",
+			"@sveltejs/adapter-netlify",
+			"@astrojs/netlify",
+		],
+		imported: false,
+	},
+	{
+		name: "cloudflare-workers",
+		configFiles: ["wrangler.toml", "wrangler.json", "wrangler.jsonc"],
+		dependencies: [
+			"wrangler",
+			"@cloudflare/workers-types",
+			"@cloudflare/vite-plugin",
+			"@opennextjs/cloudflare",
+			"@sveltejs/adapter-cloudflare",
+			"@astrojs/cloudflare",
+		],
+		imported: false,
+	},
+	{
+		name: "aws-lambda",
+		configFiles: ["serverless.yml", "serverless.yaml", "serverless.ts", "samconfig.toml"],
+		dependencies: ["serverless", "aws-lambda", "@types/aws-lambda", "@middy/core"],
+		pythonDependencies: ["aws-lambda-powertools", "mangum", "chalice"],
+		goModules: ["github.com/aws/aws-lambda-go"],
+		crates: ["lambda_runtime", "lambda_http"],
+		imported: false,
+	},
+	{
+		name: "sst",
+		configFiles: ["sst.config.ts"],
+		dependencies: ["sst"],
+		imported: false,
+	},
+	{
+		name: "fly-io",
+		configFiles: ["fly.toml"],
+	},
+	{
+		name: "railway",
+		configFiles: ["railway.json", "railway.toml"],
+	},
+	{
+		name: "render",
+		configFiles: ["render.yaml"],
+	},
+	{
+		name: "deno-deploy",
+		dependencies: ["@deno/deployctl"],
+		imported: false,
+	},
+];
+
+/**
+ * Deno config files, which mark a Deno Deploy project when they have a `deploy` section
+ */
+const DENO_CONFIG_FILES = ["deno.json", "deno.jsonc"];
+
+/**
+ * Detect hosting and deployment platforms in the project
+ */
+export function detectPlatforms(ctx: DetectionContext): DetectedItem[] {
+	const detected = matchPatterns(PLATFORM_PATTERNS, "platforms", ctx);
+
+	const denoConfig = DENO_CONFIG_FILES.find(
+		(file) => asRecord(readJson<unknown>(join(ctx.cwd, file))).deploy !== undefined,
+	);
+	if (denoConfig) {
+		addEvidence(detected, "deno-deploy", "platforms", {
+			kind: "configFile",
+			source: denoConfig,
+			detail: "deploy settings",
+		});
+	}
+
+	return detected;
+}
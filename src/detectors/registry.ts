@@ -0,0 +1,63 @@
+import type {
+	DetectedItem,
+	DetectionCategory,
+	DetectionContext,
+	DetectionPattern,
+} from "../types.js";
+import { matchPatterns } from "./match.js";
+
+/**
+ * A detector function, run against every analyzed directory
+ */
+export type DetectorFunction = (ctx: DetectionContext) => DetectedItem[];
+
+/**
+ * A detection pattern matched like the built-in ones, in a built-in or new category
+ */
+export interface CustomPattern extends DetectionPattern {
+	category: DetectionCategory;
+}
+
+/**
+ * A custom detector: either a function or a pattern
+ */
+export type Detector = DetectorFunction | CustomPattern;
+
+/**
+ * Categories reported by the built-in detectors, in display order
+ */
+export const BUILTIN_CATEGORIES: readonly DetectionCategory[] = [
+	"frameworks",
+	"languages",
+	"tools",
+	"testing",
+	"platforms",
+	"ci",
+	"databases",
+];
+
+const registeredDetectors: Detector[] = [];
+
+/**
+ * Register a detector that `detect()` runs alongside the built-in ones.
+ * Returns a function that unregisters it.
+ */
+export function registerDetector(detector: Detector): () => void {
+	registeredDetectors.push(detector);
+
+	return () => {
+		const index = registeredDetectors.indexOf(detector);
+		if (index !== -1) registeredDetectors.splice(index, 1);
+	};
+}
+
+/**
+ * Run every registered detector, followed by `extra` ones
+ */
+export function runDetectors(ctx: DetectionContext, extra: Detector[] = []): DetectedItem[] {
+	return [...registeredDetectors, ...extra].flatMap((detector) =>
+		typeof detector === "function"
+			? detector(ctx)
+			: matchPatterns([detector], detector.category, ctx),
+	);
+}
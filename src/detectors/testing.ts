@@ -1,6 +1,5 @@
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-import type { DetectionContext, ToolPattern } from "../types.js";
+import type { DetectedItem, DetectionContext, ToolPattern } from "../types.js";
+import { matchPatterns } from "./match.js";
 
 const TESTING_PATTERNS: ToolPattern[] = [
 	// JavaScript/TypeScript Testing
@@ -13,11 +12,13 @@ const TESTING_PATTERNS: ToolPattern[] = [
 		name: "jest",
 		configFiles: ["jest.config.js", "jest.config.ts", "jest.config.json"],
 		dependencies: ["jest"],
+		imported: false,
 	},
 	{
 		name: "mocha",
 		configFiles: [".mocharc.js", ".mocharc.json", ".mocharc.yaml"],
 		dependencies: ["mocha"],
+		imported: false,
 	},
 	{
 		name: "ava",
@@ -33,11 +34,13 @@ const TESTING_PATTERNS: ToolPattern[] = [
 		name: "playwright",
 		configFiles: ["playwright.config.ts", "playwright.config.js"],
 		dependencies: ["@playwright/test", "playwright"],
+		pythonDependencies: ["playwright", "pytest-playwright"],
 	},
 	{
 		name: "cypress",
 		configFiles: ["cypress.config.ts", "cypress.config.js", "cypress.json"],
 		dependencies: ["cypress"],
+		imported: false,
 	},
 	{
 		name: "puppeteer",
@@ -46,6 +49,7 @@ const TESTING_PATTERNS: ToolPattern[] = [
 	{
 		name: "selenium",
 		dependencies: ["selenium-webdriver"],
+		pythonDependencies: ["selenium"],
 	},
 
 	// Component Testing
@@ -66,70 +70,69 @@ const TESTING_PATTERNS: ToolPattern[] = [
 	// Python Testing
 	{
 		name: "pytest",
-		configFiles: ["pytest.ini", "pyproject.toml"],
-		files: ["tests/", "test/"],
+		configFiles: ["pytest.ini", "conftest.py"],
+		pythonDependencies: ["pytest"],
+		imported: false,
 	},
 	{
-		name: "unittest",
-		// Built into Python, detected via test files
+		name: "hypothesis",
+		pythonDependencies: ["hypothesis"],
+	},
+	{
+		name: "tox",
+		configFiles: ["tox.ini"],
+		pythonDependencies: ["tox"],
+		imported: false,
 	},
 
 	// Ruby Testing
 	{
 		name: "rspec",
-		files: ["spec/", ".rspec"],
+		configFiles: [".rspec"],
+		files: ["spec/spec_helper.rb", "spec/rails_helper.rb"],
+		gems: ["rspec", "rspec-rails", "rspec-core"],
 	},
 	{
 		name: "minitest",
-		files: ["test/"],
+		// Rails apps use Minitest by default without declaring it
+		files: ["test/test_helper.rb"],
+		gems: ["minitest"],
+	},
+	{
+		name: "capybara",
+		gems: ["capybara"],
 	},
 
 	// Go Testing
 	{
 		name: "go-test",
-		// Built into Go, detected via _test.go files
+		// Built into Go, detected via _test.go files of a Go module
+		requiredFiles: ["go.mod", "**/*_test.go"],
+	},
+	{
+		name: "testify",
+		goModules: ["github.com/stretchr/testify"],
+	},
+	{
+		name: "ginkgo",
+		goModules: ["github.com/onsi/ginkgo"],
 	},
 
 	// Rust Testing
 	{
 		name: "cargo-test",
-		// Built into Cargo
+		// Built into Cargo, available in every crate
+		configFiles: ["Cargo.toml"],
+	},
+	{
+		name: "proptest",
+		crates: ["proptest"],
 	},
 ];
 
 /**
  * Detect testing frameworks in the project
  */
-export function detectTesting(ctx: DetectionContext): string[] {
-	const detected: string[] = [];
-
-	for (const pattern of TESTING_PATTERNS) {
-		if (matchesTestingPattern(pattern, ctx)) {
-			detected.push(pattern.name);
-		}
-	}
-
-	return detected;
-}
-
-function matchesTestingPattern(pattern: ToolPattern, ctx: DetectionContext): boolean {
-	// Check config files
-	if (pattern.configFiles) {
-		const anyExists = pattern.configFiles.some((file) => existsSync(join(ctx.cwd, file)));
-		if (anyExists) return true;
-	}
-
-	// Check files/directories
-	if (pattern.files) {
-		const anyExists = pattern.files.some((file) => existsSync(join(ctx.cwd, file)));
-		if (anyExists) return true;
-	}
-
-	// Check dependencies
-	if (pattern.dependencies) {
-		const hasAnyDep = pattern.dependencies.some((dep) => dep in ctx.allDependencies);
-		if (hasAnyDep) return true;
-	}
-
-	return false;
+export function detectTesting(ctx: DetectionContext): DetectedItem[] {
+	return matchPatterns(TESTING_PATTERNS, "testing", ctx);
 }
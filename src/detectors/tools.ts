@@ -1,6 +1,5 @@
-import { existsSync } from "node:fs";
-import { join } from "node:path";
-import type { DetectionContext, ToolPattern } from "../types.js";
+import type { DetectedItem, DetectionContext, ToolPattern } from "../types.js";
+import { matchPatterns } from "./match.js";
 
 const TOOL_PATTERNS: ToolPattern[] = [
 	// ORMs & Databases
@@ -8,6 +7,7 @@ const TOOL_PATTERNS: ToolPattern[] = [
 		name: "prisma",
 		configFiles: ["prisma/schema.prisma"],
 		dependencies: ["prisma", "@prisma/client"],
+		imported: false,
 	},
 	{
 		name: "drizzle",
@@ -30,6 +30,45 @@ const TOOL_PATTERNS: ToolPattern[] = [
 		name: "kysely",
 		dependencies: ["kysely"],
 	},
+	{
+		name: "sqlalchemy",
+		pythonDependencies: ["sqlalchemy", "flask-sqlalchemy"],
+	},
+	{
+		name: "sqlmodel",
+		pythonDependencies: ["sqlmodel"],
+	},
+	{
+		name: "alembic",
+		configFiles: ["alembic.ini"],
+		pythonDependencies: ["alembic"],
+	},
+
+	{
+		name: "gorm",
+		goModules: ["gorm.io/gorm"],
+	},
+	{
+		name: "ent",
+		goModules: ["entgo.io/ent"],
+	},
+	{
+		name: "sqlx",
+		crates: ["sqlx"],
+	},
+	{
+		name: "diesel",
+		configFiles: ["diesel.toml"],
+		crates: ["diesel"],
+	},
+	{
+		name: "sea-orm",
+		crates: ["sea-orm"],
+	},
+	{
+		name: "sqlc",
+		configFiles: ["sqlc.yaml", "sqlc.yml", "sqlc.json"],
+	},
 
 	// CSS & Styling
 	{
@@ -41,6 +80,7 @@ const TOOL_PATTERNS: ToolPattern[] = [
 			"tailwind.config.cjs",
 		],
 		dependencies: ["tailwindcss"],
+		imported: false,
 	},
 	{
 		name: "styled-components",
@@ -53,10 +93,12 @@ const TOOL_PATTERNS: ToolPattern[] = [
 	{
 		name: "sass",
 		dependencies: ["sass", "node-sass"],
+		imported: false,
 	},
 	{
 		name: "less",
 		dependencies: ["less"],
+		imported: false,
 	},
 
 	// Build Tools
@@ -64,24 +106,98 @@ const TOOL_PATTERNS: ToolPattern[] = [
 		name: "webpack",
 		configFiles: ["webpack.config.js", "webpack.config.ts"],
 		dependencies: ["webpack"],
+		imported: false,
 	},
 	{
 		name: "esbuild",
 		dependencies: ["esbuild"],
+		imported: false,
 	},
 	{
 		name: "rollup",
 		configFiles: ["rollup.config.js", "rollup.config.ts"],
 		dependencies: ["rollup"],
+		imported: false,
 	},
 	{
 		name: "turbopack",
 		dependencies: ["@serwist/turbopack", "@vercel/turbopack", "turbopack"],
+		imported: false,
 	},
 	{
 		name: "turborepo",
 		configFiles: ["turbo.json"],
 		dependencies: ["turbo"],
+		imported: false,
+	},
+
+	// Python Libraries
+	{
+		name: "pydantic",
+		pythonDependencies: ["pydantic"],
+	},
+	{
+		name: "celery",
+		pythonDependencies: ["celery"],
+	},
+	{
+		name: "pandas",
+		pythonDependencies: ["pandas"],
+	},
+
+	// Go Libraries
+	{
+		name: "cobra",
+		goModules: ["github.com/spf13/cobra"],
+	},
+	{
+		name: "viper",
+		goModules: ["github.com/spf13/viper"],
+	},
+	{
+		name: "grpc",
+		goModules: ["google.golang.org/grpc"],
+		crates: ["tonic"],
+		dependencies: ["@grpc/grpc-js"],
+		pythonDependencies: ["grpcio"],
+	},
+
+	// Rust Libraries
+	{
+		name: "tokio",
+		crates: ["tokio"],
+	},
+	{
+		name: "serde",
+		crates: ["serde"],
+	},
+	{
+		name: "clap",
+		crates: ["clap"],
+	},
+
+	// Ruby Libraries
+	{
+		name: "sidekiq",
+		gems: ["sidekiq"],
+	},
+	{
+		name: "devise",
+		gems: ["devise"],
+	},
+	{
+		name: "pundit",
+		gems: ["pundit"],
+	},
+	{
+		name: "hotwire",
+		gems: ["turbo-rails", "stimulus-rails"],
+		dependencies: ["@hotwired/turbo", "@hotwired/stimulus"],
+	},
+	{
+		name: "sorbet",
+		configFiles: ["sorbet/config"],
+		gems: ["sorbet", "sorbet-runtime"],
 	},
 
 	// State Management
@@ -144,10 +260,12 @@ const TOOL_PATTERNS: ToolPattern[] = [
 	{
 		name: "supabase",
 		dependencies: ["@supabase/supabase-js", "@supabase/auth-helpers-nextjs"],
+		pythonDependencies: ["supabase"],
 	},
 	{
 		name: "firebase",
 		dependencies: ["firebase", "firebase-admin"],
+		pythonDependencies: ["firebase-admin"],
 	},
 
 	// DevOps & Infrastructure
@@ -173,16 +291,41 @@ const TOOL_PATTERNS: ToolPattern[] = [
 		name: "eslint",
 		configFiles: [".eslintrc", ".eslintrc.js", ".eslintrc.json", "eslint.config.js"],
 		dependencies: ["eslint"],
+		imported: false,
 	},
 	{
 		name: "prettier",
 		configFiles: [".prettierrc", ".prettierrc.js", ".prettierrc.json", "prettier.config.js"],
 		dependencies: ["prettier"],
+		imported: false,
 	},
 	{
 		name: "biome",
 		configFiles: ["biome.json", "biome.jsonc"],
 		dependencies: ["@biomejs/biome"],
+		imported: false,
+	},
+	{
+		name: "ruff",
+		configFiles: ["ruff.toml", ".ruff.toml"],
+		pythonDependencies: ["ruff"],
+		imported: false,
+	},
+	{
+		name: "black",
+		pythonDependencies: ["black"],
+		imported: false,
+	},
+	{
+		name: "mypy",
+		configFiles: ["mypy.ini", ".mypy.ini"],
+		pythonDependencies: ["mypy"],
+		imported: false,
+	},
+	{
+		name: "rubocop",
+		configFiles: [".rubocop.yml"],
+		gems: ["rubocop"],
 	},
 
 	// Monorepo Tools
@@ -190,16 +333,19 @@ const TOOL_PATTERNS: ToolPattern[] = [
 		name: "nx",
 		configFiles: ["nx.json"],
 		dependencies: ["nx"],
+		imported: false,
 	},
 	{
 		name: "lerna",
 		configFiles: ["lerna.json"],
 		dependencies: ["lerna"],
+		imported: false,
 	},
 	{
 		name: "changesets",
 		files: [".changeset/"],
 		dependencies: ["@changesets/cli"],
+		imported: false,
 	},
 
 	// Documentation
@@ -207,24 +353,29 @@ const TOOL_PATTERNS: ToolPattern[] = [
 		name: "storybook",
 		files: [".storybook/"],
 		dependencies: ["@storybook/react", "storybook"],
+		imported: false,
 	},
 	{
 		name: "docusaurus",
 		dependencies: ["@docusaurus/core"],
+		imported: false,
 	},
 
 	// AI & ML
 	{
 		name: "openai",
 		dependencies: ["openai"],
+		pythonDependencies: ["openai"],
 	},
 	{
 		name: "anthropic",
 		dependencies: ["@anthropic-ai/sdk"],
+		pythonDependencies: ["anthropic"],
 	},
 	{
 		name: "langchain",
 		dependencies: ["langchain", "@langchain/core"],
+		pythonDependencies: ["langchain", "langchain-core"],
 	},
 	{
 		name: "vercel-ai",
@@ -235,49 +386,23 @@ const TOOL_PATTERNS: ToolPattern[] = [
 /**
  * Detect tools and libraries in the project
  */
-export function detectTools(ctx: DetectionContext): string[] {
-	const detected: string[] = [];
-
-	for (const pattern of TOOL_PATTERNS) {
-		if (matchesToolPattern(pattern, ctx)) {
-			detected.push(pattern.name);
-		}
-	}
+export function detectTools(ctx: DetectionContext): DetectedItem[] {
+	const detected = matchPatterns(TOOL_PATTERNS, "tools", ctx);
+	const names = detected.map((item) => item.name);
 
 	// Exclude superseded tools
-	let filtered = detected;
+	const superseded = new Set<string>();
 
 	// Exclude webpack if turbopack is detected
-	if (filtered.includes("turbopack") && filtered.includes("webpack")) {
-		filtered = filtered.filter((t) => t !== "webpack");
+	if (names.includes("turbopack")) {
+		superseded.add("webpack");
 	}
 
 	// Exclude eslint/prettier if biome is detected (biome replaces both)
-	if (filtered.includes("biome")) {
-		filtered = filtered.filter((t) => t !== "eslint" && t !== "prettier");
-	}
-
-	return filtered;
-}
-
-function matchesToolPattern(pattern: ToolPattern, ctx: DetectionContext): boolean {
-	// Check config files
-	if (pattern.configFiles) {
-		const anyExists = pattern.configFiles.some((file) => existsSync(join(ctx.cwd, file)));
-		if (anyExists) return true;
-	}
-
-	// Check files/directories
-	if (pattern.files) {
-		const anyExists = pattern.files.some((file) => existsSync(join(ctx.cwd, file)));
-		if (anyExists) return true;
-	}
-
-	// Check dependencies
-	if (pattern.dependencies) {
-		const hasAnyDep = pattern.dependencies.some((dep) => dep in ctx.allDependencies);
-		if (hasAnyDep) return true;
+	if (names.includes("biome")) {
+		superseded.add("eslint");
+		superseded.add("prettier");
 	}
 
-	return false;
+	return detected.filter((item) => !superseded.has(item.name));
 }
@@ -0,0 +1,164 @@
+import { type Dirent, existsSync, readdirSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Directories never searched by glob patterns
+ */
+export const IGNORED_DIRS = new Set([
+	"node_modules",
+	".git",
+	"dist",
+	"build",
+	"out",
+	"coverage",
+	"target",
+	"vendor",
+	"__pycache__",
+]);
+
+/**
+ * Default maximum directory depth followed by "**"
+ */
+const DEFAULT_MAX_DEPTH = 5;
+
+export interface GlobOptions {
+	/** Maximum directory depth followed by "**" (defaults to 5) */
+	maxDepth?: number;
+	/** Additional directory names to skip */
+	ignore?: string[];
+	/** Only match files or only match directories */
+	type?: "file" | "directory";
+}
+
+/**
+ * Check if a path contains glob syntax
+ */
+export function isGlobPattern(pattern: string): boolean {
+	return /[*?[]/.test(pattern);
+}
+
+/**
+ * Find paths (relative to `cwd`, posix separators) matching a glob pattern.
+ * Supports `*`, `?`, `[...]` and `**`; wildcards never match dotfiles.
+ */
+export function findGlobMatches(cwd: string, pattern: string, options: GlobOptions = {}): string[] {
+	const matches: string[] = [];
+	walkGlob(cwd, pattern, options, (path) => {
+		matches.push(path);
+		return false;
+	});
+	return matches.sort();
+}
+
+/**
+ * Find the first path matching a pattern (literal paths are checked directly),
+ * or undefined if nothing matches
+ */
+export function findFirstMatch(
+	cwd: string,
+	pattern: string,
+	options: GlobOptions = {},
+): string | undefined {
+	if (!isGlobPattern(pattern)) {
+		return existsSync(join(cwd, pattern)) ? pattern : undefined;
+	}
+
+	let found: string | undefined;
+	walkGlob(cwd, pattern, options, (path) => {
+		found = path;
+		return true;
+	});
+	return found;
+}
+
+/**
+ * Walk the directories a pattern can reach, calling `onMatch` for every match.
+ * `onMatch` returns true to stop walking.
+ */
+function walkGlob(
+	cwd: string,
+	pattern: string,
+	options: GlobOptions,
+	onMatch: (path: string) => boolean,
+): void {
+	const segments = pattern.replace(/^\.\//, "").replace(/\/+$/, "").split("/");
+
+	// Start walking at the literal prefix (e.g. ".github/workflows" for ".github/workflows/*.yml")
+	const firstGlob = segments.findIndex(isGlobPattern);
+	if (firstGlob === -1) {
+		const path = segments.join("/");
+		if (existsSync(join(cwd, path))) onMatch(path);
+		return;
+	}
+
+	const base = segments.slice(0, firstGlob).join("/");
+	const rest = segments.slice(firstGlob);
+	const maxDepth = rest.includes("**") ? (options.maxDepth ?? DEFAULT_MAX_DEPTH) : rest.length - 1;
+	const regex = globToRegex(segments.join("/"));
+	const ignored = new Set([...IGNORED_DIRS, ...(options.ignore ?? [])]);
+
+	const visit = (dir: string, depth: number): boolean => {
+		let entries: Dirent[];
+		try {
+			entries = readdirSync(join(cwd, dir), { withFileTypes: true });
+		} catch {
+			return false;
+		}
+
+		for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+			if (entry.name.startsWith(".") || ignored.has(entry.name)) continue;
+
+			const path = dir ? `${dir}/${entry.name}` : entry.name;
+			const isDirectory = entry.isDirectory();
+			const typeMatches = !options.type || (options.type === "directory") === isDirectory;
+
+			if (typeMatches && regex.test(path) && onMatch(path)) return true;
+			if (isDirectory && depth < maxDepth && visit(path, depth + 1)) return true;
+		}
+
+		return false;
+	};
+
+	visit(base, 0);
+}
+
+/**
+ * Convert a glob pattern into a regular expression over posix paths
+ */
+export function globToRegex(pattern: string): RegExp {
+	let source = "";
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+
+		if (char === "*" && pattern[i + 1] === "*") {
+			// "**/" matches zero or more directories, a trailing "**" matches everything
+			if (pattern[i + 2] === "/") {
+				source += "(?:(?!\\.)[^/]+/)*";
+				i += 2;
+			} else {
+				source += ".*";
+				i += 1;
+			}
+		} else if (char === "*") {
+			source += "(?!\\.)[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else if (char === "[") {
+			const end = pattern.indexOf("]", i);
+			if (end === -1) {
+				source += "\\[";
+			} else {
+				source += `[${pattern
+					.slice(i + 1, end)
+					.replace(/^!/, "^")
+					.replace(/\\/g, "\\\\")}]`;
+				i = end;
+			}
+		} else {
+			source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
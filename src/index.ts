@@ -1,17 +1,118 @@
 import { existsSync, readFileSync } from "node:fs";
 import { join, resolve } from "node:path";
 import { detect as detectPackageManager } from "package-manager-detector";
+import { loadConfig, type SkillsDetectorConfig } from "./config.js";
+import { detectCi } from "./detectors/ci.js";
+import { detectDatabases } from "./detectors/databases.js";
 import { detectFrameworks } from "./detectors/frameworks.js";
-import { detectLanguages } from "./detectors/languages.js";
+import { applyImportScan, type ImportScanOptions, scanImports } from "./detectors/imports.js";
+import {
+	detectLanguages,
+	INCIDENTAL_LANGUAGE_PERCENTAGE,
+	refineLanguages,
+	sampleLanguages,
+} from "./detectors/languages.js";
+import { scoreEvidence } from "./detectors/match.js";
+import { detectPlatforms } from "./detectors/platforms.js";
+import { BUILTIN_CATEGORIES, type Detector, runDetectors } from "./detectors/registry.js";
 import { detectTesting } from "./detectors/testing.js";
 import { detectTools } from "./detectors/tools.js";
-import type { DetectionContext, DetectionResult, PackageJson } from "./types.js";
+import { loadCrates } from "./manifests/cargo.js";
+import { loadGoModules } from "./manifests/go.js";
+import { loadLockfile } from "./manifests/lockfile.js";
+import { loadPythonDependencies } from "./manifests/python.js";
+import { loadGems } from "./manifests/ruby.js";
+import type {
+	DetectedItem,
+	DetectionCategory,
+	DetectionContext,
+	DetectionResult,
+	LanguageStat,
+	PackageJson,
+	WorkspaceDetection,
+} from "./types.js";
+import type { WalkOptions } from "./walk.js";
+import { detectWorkspaces } from "./workspaces.js";
 
-export type { DetectionContext, DetectionResult, PackageJson } from "./types.js";
+export type {
+	CatalogCondition,
+	CatalogEntry,
+	CatalogMatch,
+	DetectionSelector,
+	SkillCatalog,
+} from "./catalog/index.js";
+export type { LoadedConfig, SkillsDetectorConfig } from "./config.js";
+export type {
+	CustomPattern,
+	Detector,
+	DetectorFunction,
+} from "./detectors/registry.js";
+export type {
+	BuiltinCategory,
+	DetectedItem,
+	DetectionCategory,
+	DetectionContext,
+	DetectionResult,
+	Evidence,
+	EvidenceKind,
+	LanguageStat,
+	PackageJson,
+	RecommendationReason,
+	RecommendationResult,
+	SkillEntry,
+	SkillRecommendation,
+	WorkspaceDetection,
+} from "./types.js";
+export type { VersionedName } from "./versions.js";
+export type { WalkOptions } from "./walk.js";
 
 export interface DetectOptions {
 	/** Working directory to analyze (defaults to process.cwd()) */
 	cwd?: string;
+	/** Also analyze monorepo workspace packages (defaults to true) */
+	workspaces?: boolean;
+	/** Walk source files to weight languages by code volume (defaults to false) */
+	sampleFiles?: boolean | WalkOptions;
+	/** Scan source files for imports, to confirm that detected dependencies are used (defaults to false) */
+	scanImports?: boolean | ImportScanOptions;
+	/** Drop detections with a confidence below this threshold, from 0 to 1 (defaults to 0) */
+	minConfidence?: number;
+	/** Qualify search terms with the detected major version, e.g. "nextjs@15" (defaults to false) */
+	versionedSearchTerms?: boolean;
+	/** Read installed versions from the package manager's lockfile (defaults to true) */
+	lockfile?: boolean;
+	/** Also detect packages installed only as dependencies of dependencies (defaults to false) */
+	transitive?: boolean;
+	/** Custom detectors to run alongside the built-in and registered ones */
+	detectors?: Detector[];
+	/** Project config to apply (loaded from `cwd` when omitted, `false` to ignore it) */
+	config?: SkillsDetectorConfig | false;
+}
+
+interface DirectoryOptions {
+	packageManager: string | null;
+	lockfile?: boolean;
+	transitive?: boolean;
+	detectors?: Detector[];
+}
+
+type DetectionSummary = Pick<
+	DetectionResult,
+	| "frameworks"
+	| "languages"
+	| "tools"
+	| "testing"
+	| "platforms"
+	| "ci"
+	| "databases"
+	| "custom"
+	| "searchTerms"
+	| "versions"
+>;
+
+interface SummaryOptions {
+	breakdown?: LanguageStat[];
+	versionedSearchTerms?: boolean;
 }
 
 /**
@@ -19,44 +120,320 @@ export interface DetectOptions {
  */
 export async function detect(options: DetectOptions = {}): Promise<DetectionResult> {
 	const cwd = resolve(options.cwd ?? process.cwd());
+	const minConfidence = options.minConfidence ?? 0;
 
 	// Detect package manager using antfu's package-manager-detector
 	const pmResult = await detectPackageManager({ cwd });
 	const packageManager = pmResult?.name ?? null;
 
+	const loaded =
+		options.config === undefined
+			? await loadConfig(cwd)
+			: options.config && { config: options.config, source: "project config" };
+	const config = loaded ? loaded.config : {};
+	const excluded = new Set(config.exclude);
+
+	const directoryOptions: DirectoryOptions = {
+		packageManager,
+		lockfile: options.lockfile,
+		transitive: options.transitive,
+		detectors: [...(config.detectors ?? []), ...(options.detectors ?? [])],
+	};
+	const root = detectDirectory(cwd, "", directoryOptions);
+	let details = root.details;
+	let workspaces: Record<string, WorkspaceDetection> | undefined;
+
+	// Run every detector per workspace package and merge into the root result
+	const workspacePaths =
+		options.workspaces === false ? [] : detectWorkspaces(cwd, root.packageJson);
+	if (workspacePaths.length > 0) {
+		workspaces = {};
+		for (const path of workspacePaths) {
+			// Transitive dependencies are shared by the whole project and only checked at the root
+			const workspace = detectDirectory(cwd, path, { ...directoryOptions, transitive: false });
+			const confident = workspace.details.filter(
+				(item) => item.confidence >= minConfidence && !excluded.has(item.name),
+			);
+			workspaces[path] = {
+				name: workspace.packageJson?.name,
+				...summarize(confident, { versionedSearchTerms: options.versionedSearchTerms }),
+			};
+			details = mergeDetails(details, prefixEvidence(workspace.details, path));
+		}
+	}
+
+	// Weight languages by the amount of code actually present
+	let languageBreakdown: LanguageStat[] | undefined;
+	if (options.sampleFiles) {
+		languageBreakdown = sampleLanguages(
+			cwd,
+			options.sampleFiles === true ? {} : options.sampleFiles,
+		);
+		details = [
+			...details.filter((item) => item.category !== "languages"),
+			...refineLanguages(
+				details.filter((item) => item.category === "languages"),
+				languageBreakdown,
+			),
+		];
+	}
+
+	// Count how often detected dependencies are actually imported
+	let imports: Record<string, number> | undefined;
+	if (options.scanImports) {
+		const scan = scanImports(cwd, options.scanImports === true ? {} : options.scanImports);
+		({ details, imports } = applyImportScan(details, scan));
+	}
+
+	details = details.filter((item) => item.confidence >= minConfidence && !excluded.has(item.name));
+
+	// Detections forced by the project config
+	if (loaded) {
+		details = mergeDetails(details, includedDetails(config, loaded.source));
+	}
+
+	const summary = summarize(details, {
+		breakdown: languageBreakdown,
+		versionedSearchTerms: options.versionedSearchTerms,
+	});
+	summary.searchTerms = [...new Set([...summary.searchTerms, ...(config.searchTerms ?? [])])];
+
+	return {
+		packageManager,
+		...summary,
+		details,
+		...(languageBreakdown ? { languageBreakdown } : {}),
+		...(imports ? { imports: pickIncluded(imports, details) } : {}),
+		...(workspaces ? { workspaces } : {}),
+	};
+}
+
+/**
+ * Run all detectors against a single directory of the project at `root`
+ */
+function detectDirectory(
+	root: string,
+	path: string,
+	options: DirectoryOptions,
+): { packageJson?: PackageJson; details: DetectedItem[] } {
+	const dir = resolve(root, path);
+
 	// Load package.json if it exists
-	const packageJson = loadPackageJson(cwd);
+	const packageJson = loadPackageJson(dir);
 	const allDependencies = {
+		...packageJson?.peerDependencies,
+		...packageJson?.optionalDependencies,
 		...packageJson?.dependencies,
 		...packageJson?.devDependencies,
 	};
 
+	const lockfile =
+		options.lockfile === false
+			? undefined
+			: loadLockfile(root, options.packageManager, path, allDependencies);
+	const transitiveDependencies =
+		lockfile && options.transitive
+			? Object.fromEntries(
+					Object.entries(lockfile.versions).filter(([name]) => !(name in allDependencies)),
+				)
+			: undefined;
+
+	const pythonManifests: Record<string, string> = {};
 	const ctx: DetectionContext = {
-		cwd,
+		cwd: dir,
 		packageJson,
 		allDependencies,
+		lockfile: lockfile?.file,
+		lockedVersions: lockfile?.versions,
+		transitiveDependencies,
+		pythonDependencies: loadPythonDependencies(dir, pythonManifests),
+		pythonManifests,
+		goModules: loadGoModules(dir),
+		crates: loadCrates(dir),
+		gems: loadGems(dir),
+	};
+
+	// Run all detectors, then custom ones
+	return {
+		packageJson,
+		details: mergeDetails(
+			[
+				...detectFrameworks(ctx),
+				...detectLanguages(ctx),
+				...detectTools(ctx),
+				...detectTesting(ctx),
+				...detectPlatforms(ctx),
+				...detectCi(ctx),
+				...detectDatabases(ctx),
+			],
+			runDetectors(ctx, options.detectors),
+		),
 	};
+}
 
-	// Run all detectors
-	const frameworks = detectFrameworks(ctx);
-	const languages = detectLanguages(ctx);
-	const tools = detectTools(ctx);
-	const testing = detectTesting(ctx);
+/**
+ * Group detected items into per-category name lists and search terms
+ */
+function summarize(details: DetectedItem[], options: SummaryOptions = {}): DetectionSummary {
+	const names = (category: DetectionCategory) =>
+		details.filter((item) => item.category === category).map((item) => item.name);
 
-	// Combine all detected items into search terms
-	// Remove duplicates and sort alphabetically
-	const searchTerms = [...new Set([...frameworks, ...languages, ...tools, ...testing])].sort();
+	const frameworks = names("frameworks");
+	const languages = names("languages");
+	const tools = names("tools");
+	const testing = names("testing");
+	const platforms = names("platforms");
+	const ci = names("ci");
+	const databases = names("databases");
+
+	// Categories introduced by custom detectors, in order of appearance
+	let custom: Record<string, string[]> | undefined;
+	for (const item of details) {
+		if (BUILTIN_CATEGORIES.includes(item.category)) continue;
+		custom ??= {};
+		custom[item.category] ??= [];
+		if (!custom[item.category].includes(item.name)) custom[item.category].push(item.name);
+	}
+
+	const versions: Record<string, string> = {};
+	for (const item of details) {
+		if (item.version && !versions[item.name]) {
+			versions[item.name] = item.version;
+		}
+	}
+
+	// Dependencies that the import scan found unused are still reported, but not searched for
+	const unused = new Set(
+		details
+			.filter(
+				(item) =>
+					item.evidence.some((evidence) => evidence.kind === "unimported") &&
+					!item.evidence.some((evidence) => evidence.kind === "config"),
+			)
+			.map((item) => item.name),
+	);
+	let searchTerms = buildSearchTerms(
+		{ frameworks, languages, tools, testing, platforms, ci, databases, custom },
+		options.breakdown,
+	).filter((term) => !unused.has(term));
+	if (options.versionedSearchTerms) {
+		searchTerms = searchTerms.map((term) => (versions[term] ? `${term}@${versions[term]}` : term));
+	}
 
 	return {
-		packageManager,
 		frameworks,
 		languages,
 		tools,
 		testing,
+		platforms,
+		ci,
+		databases,
+		...(custom ? { custom } : {}),
 		searchTerms,
+		versions,
 	};
 }
 
+/**
+ * Combine all detected items into search terms
+ * Remove duplicates and sort alphabetically. With a language breakdown,
+ * primary languages come first (by volume) and incidental ones are dropped.
+ */
+function buildSearchTerms(
+	detected: Pick<
+		DetectionSummary,
+		"frameworks" | "languages" | "tools" | "testing" | "platforms" | "ci" | "databases" | "custom"
+	>,
+	breakdown?: LanguageStat[],
+): string[] {
+	const primaryLanguages = breakdown
+		? breakdown
+				.filter(
+					(stat) =>
+						detected.languages.includes(stat.name) &&
+						stat.percentage >= INCIDENTAL_LANGUAGE_PERCENTAGE,
+				)
+				.map((stat) => stat.name)
+		: [];
+	const otherTerms = [
+		...detected.frameworks,
+		...(breakdown ? [] : detected.languages),
+		...detected.tools,
+		...detected.testing,
+		...detected.platforms,
+		...detected.ci,
+		...detected.databases,
+		...Object.values(detected.custom ?? {}).flat(),
+	].sort();
+
+	return [...new Set([...primaryLanguages, ...otherTerms])];
+}
+
+/**
+ * Merge detected items, combining the evidence of items found more than once
+ */
+function mergeDetails(existing: DetectedItem[], added: DetectedItem[]): DetectedItem[] {
+	const merged = existing.map((item) => ({ ...item, evidence: [...item.evidence] }));
+
+	for (const item of added) {
+		const match = merged.find(
+			(other) => other.name === item.name && other.category === item.category,
+		);
+		if (match) {
+			match.evidence.push(...item.evidence);
+			match.confidence = scoreEvidence(match.evidence);
+			match.version ??= item.version;
+			if (item.imported === false) match.imported = false;
+		} else {
+			merged.push(item);
+		}
+	}
+
+	return merged;
+}
+
+/**
+ * Import counts of the items that are still reported
+ */
+function pickIncluded(
+	imports: Record<string, number>,
+	details: DetectedItem[],
+): Record<string, number> {
+	return Object.fromEntries(
+		Object.entries(imports).filter(([name]) => details.some((item) => item.name === name)),
+	);
+}
+
+/**
+ * Items listed under `include` in the project config
+ */
+function includedDetails(config: SkillsDetectorConfig, source: string): DetectedItem[] {
+	return Object.entries(config.include ?? {}).flatMap(([category, names = []]) =>
+		names.map((name) => ({
+			name,
+			category,
+			confidence: 1,
+			evidence: [{ kind: "config" as const, source }],
+		})),
+	);
+}
+
+/**
+ * Make evidence sources of a workspace relative to the repository root
+ */
+function prefixEvidence(details: DetectedItem[], path: string): DetectedItem[] {
+	return details.map((item) => ({
+		...item,
+		evidence: item.evidence.map((evidence) => ({
+			...evidence,
+			source: evidence.source
+				.split(", ")
+				.map((source) => `${path}/${source}`)
+				.join(", "),
+		})),
+	}));
+}
+
 /**
  * Load and parse package.json from a directory
  */
@@ -76,7 +453,83 @@ function loadPackageJson(cwd: string): PackageJson | undefined {
 }
 
 // Re-export individual detectors for advanced usage
+export {
+	BUILTIN_CATALOG,
+	CATALOG_VERSION,
+	catalogFromMapping,
+	loadCatalog,
+	matchCatalog,
+	mergeCatalogs,
+} from "./catalog/index.js";
+export { CONFIG_FILES, defineConfig, loadConfig } from "./config.js";
+export { detectCi } from "./detectors/ci.js";
+export { detectDatabases } from "./detectors/databases.js";
 export { detectFrameworks } from "./detectors/frameworks.js";
-export { detectLanguages } from "./detectors/languages.js";
+export {
+	applyImportScan,
+	countImports,
+	extractImports,
+	type ImportScan,
+	type ImportScanOptions,
+	scanImports,
+} from "./detectors/imports.js";
+export { detectLanguages, sampleLanguages } from "./detectors/languages.js";
+export { detectPlatforms } from "./detectors/platforms.js";
+export { BUILTIN_CATEGORIES, registerDetector } from "./detectors/registry.js";
 export { detectTesting } from "./detectors/testing.js";
 export { detectTools } from "./detectors/tools.js";
+export {
+	createHttpProvider,
+	createLocalProvider,
+	createNpxProvider,
+	createSearchProvider,
+	DEFAULT_CACHE_TTL,
+	DEFAULT_REGISTRY_URL,
+	defaultCacheDir,
+	type HttpProviderOptions,
+	type LocalProviderOptions,
+	normalizeSearchResults,
+	type SearchCacheOptions,
+	type SearchProviderConfig,
+	type SkillSearchProvider,
+	type SkillSearchResult,
+	withSearchCache,
+} from "./providers/index.js";
+export {
+	ECOSYSTEM_MARKERS,
+	isRelevantSkill,
+	type RecommendOptions,
+	recommend,
+	TRUSTED_SOURCES,
+} from "./recommend.js";
+export { groupSkillsBySource, parseSkillRef } from "./skills.js";
+export { majorVersion, parseVersionedName, satisfiesMajor } from "./versions.js";
+export { detectWorkspaces } from "./workspaces.js";
+export {
+	agentsMdWriter,
+	BUILTIN_WRITERS,
+	buildSkillsJson,
+	claudeMdWriter,
+	createMarkdownWriter,
+	cursorRulesWriter,
+	diffLines,
+	diffSkillsJson,
+	formatSkillList,
+	getWriter,
+	listWriters,
+	lockfileWriter,
+	type MarkdownWriterOptions,
+	mergeSkillsJson,
+	type OutputWriter,
+	overwriteSkillsJson,
+	parseSkillsJson,
+	readSkillsJson,
+	registerWriter,
+	SKILLS_JSON_FILE,
+	type SkillsJson,
+	type SkillsJsonDetected,
+	type SkillsJsonDiff,
+	skillmanWriter,
+	type WriterContext,
+	type WriterOutput,
+} from "./writers/index.js";
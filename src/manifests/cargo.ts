@@ -0,0 +1,86 @@
+import { join } from "node:path";
+import { expandWorkspacePatterns } from "../workspaces.js";
+import { asRecord, asStringArray, readToml } from "./read.js";
+
+const DEPENDENCY_TABLES = ["dependencies", "dev-dependencies", "build-dependencies"];
+
+/**
+ * Load Rust crate dependencies from Cargo.toml at `cwd`, including
+ * `[dev-dependencies]`, target-specific tables and `[workspace]` members.
+ * Returns normalized crate names mapped to their version requirement.
+ */
+export function loadCrates(cwd: string): Record<string, string> {
+	const manifest = readToml(join(cwd, "Cargo.toml"));
+	if (!manifest) return {};
+
+	const workspace = asRecord(manifest.workspace);
+	const workspaceDependencies = asRecord(workspace.dependencies);
+	const crates: Record<string, string> = {};
+
+	collectManifest(manifest, workspaceDependencies, crates);
+
+	const members = expandWorkspacePatterns(
+		cwd,
+		[
+			...asStringArray(workspace.members),
+			...asStringArray(workspace.exclude).map((path) => `!${path}`),
+		],
+		["Cargo.toml"],
+	);
+
+	for (const member of members) {
+		if (member === ".") continue;
+		const memberManifest = readToml(join(cwd, member, "Cargo.toml"));
+		if (memberManifest) {
+			collectManifest(memberManifest, workspaceDependencies, crates);
+		}
+	}
+
+	return crates;
+}
+
+/**
+ * Normalize a crate name ("-" and "_" are interchangeable on crates.io)
+ */
+export function normalizeCrateName(name: string): string {
+	return name.toLowerCase().replace(/_/g, "-");
+}
+
+function collectManifest(
+	manifest: Record<string, unknown>,
+	workspaceDependencies: Record<string, unknown>,
+	crates: Record<string, string>,
+): void {
+	const tables = DEPENDENCY_TABLES.map((table) => manifest[table]);
+
+	// [target.'cfg(unix)'.dependencies] and friends
+	for (const target of Object.values(asRecord(manifest.target))) {
+		tables.push(...DEPENDENCY_TABLES.map((table) => asRecord(target)[table]));
+	}
+
+	for (const table of tables) {
+		collectDependencyTable(asRecord(table), workspaceDependencies, crates);
+	}
+}
+
+function collectDependencyTable(
+	table: Record<string, unknown>,
+	workspaceDependencies: Record<string, unknown>,
+	crates: Record<string, string>,
+): void {
+	for (const [key, spec] of Object.entries(table)) {
+		const details = asRecord(spec);
+		// Renamed dependencies: foo = { package = "real-crate", ... }
+		const name = normalizeCrateName(typeof details.package === "string" ? details.package : key);
+
+		let version = typeof spec === "string" ? spec : details.version;
+		if (details.workspace === true) {
+			const inherited = workspaceDependencies[key];
+			version = typeof inherited === "string" ? inherited : asRecord(inherited).version;
+		}
+
+		if (!crates[name]) {
+			crates[name] = typeof version === "string" ? version : "";
+		}
+	}
+}
@@ -0,0 +1,146 @@
+import { join } from "node:path";
+import { readText } from "./read.js";
+
+/**
+ * A single `require` entry from go.mod
+ */
+export interface GoRequire {
+	path: string;
+	version: string;
+	/** Marked with `// indirect` (only needed by other dependencies) */
+	indirect: boolean;
+}
+
+/**
+ * A `replace` directive from go.mod
+ */
+export interface GoReplace {
+	path: string;
+	/** Only set when the replace is limited to one version */
+	version?: string;
+	newPath: string;
+	/** Empty for local directory replacements */
+	newVersion?: string;
+}
+
+/**
+ * Parsed go.mod contents
+ */
+export interface GoModFile {
+	module?: string;
+	go?: string;
+	require: GoRequire[];
+	replace: GoReplace[];
+}
+
+/**
+ * Load direct Go module requirements from go.mod at `cwd`.
+ * Returns module paths mapped to their version, with replace directives applied.
+ */
+export function loadGoModules(cwd: string): Record<string, string> {
+	const content = readText(join(cwd, "go.mod"));
+	if (!content) return {};
+
+	const goMod = parseGoMod(content);
+	const modules: Record<string, string> = {};
+
+	for (const req of goMod.require) {
+		if (req.indirect) continue;
+
+		const replacement = goMod.replace.find(
+			(rep) => rep.path === req.path && (!rep.version || rep.version === req.version),
+		);
+		// Keep the original path (that's what the code imports), but use the replaced version
+		modules[req.path] = replacement ? (replacement.newVersion ?? "") : req.version;
+	}
+
+	return modules;
+}
+
+/**
+ * Parse go.mod, handling both single-line and block (`require ( ... )`) directives
+ */
+export function parseGoMod(content: string): GoModFile {
+	const goMod: GoModFile = { require: [], replace: [] };
+	let block: string | undefined;
+
+	for (const rawLine of content.split("\n")) {
+		const commentIndex = rawLine.indexOf("//");
+		const comment = commentIndex === -1 ? "" : rawLine.slice(commentIndex + 2).trim();
+		const line = (commentIndex === -1 ? rawLine : rawLine.slice(0, commentIndex)).trim();
+		if (!line) continue;
+
+		if (block) {
+			if (line === ")") {
+				block = undefined;
+			} else {
+				parseDirective(goMod, block, line, comment);
+			}
+			continue;
+		}
+
+		const blockMatch = line.match(/^(\w+)\s*\($/);
+		if (blockMatch) {
+			block = blockMatch[1];
+			continue;
+		}
+
+		const directiveMatch = line.match(/^(\w+)\s+(.+)$/);
+		if (directiveMatch) {
+			parseDirective(goMod, directiveMatch[1], directiveMatch[2], comment);
+		}
+	}
+
+	return goMod;
+}
+
+function parseDirective(goMod: GoModFile, directive: string, args: string, comment: string): void {
+	const tokens = args.split(/\s+/).map(unquote);
+
+	switch (directive) {
+		case "module":
+			goMod.module = tokens[0];
+			break;
+		case "go":
+			goMod.go = tokens[0];
+			break;
+		case "require":
+			if (tokens.length >= 2) {
+				goMod.require.push({
+					path: tokens[0],
+					version: tokens[1],
+					indirect: /(^|;\s*)indirect\b/.test(comment),
+				});
+			}
+			break;
+		case "replace": {
+			const arrow = tokens.indexOf("=>");
+			if (arrow === -1) break;
+			const [path, version] = tokens.slice(0, arrow);
+			const [newPath, newVersion] = tokens.slice(arrow + 1);
+			if (path && newPath) {
+				goMod.replace.push({ path, version, newPath, newVersion });
+			}
+			break;
+		}
+	}
+}
+
+function unquote(token: string): string {
+	return token.replace(/^"(.*)"$/, "$1").replace(/^`(.*)`$/, "$1");
+}
+
+/**
+ * Check if a module path matches a pattern, ignoring major version suffixes
+ * (e.g. "github.com/labstack/echo" matches "github.com/labstack/echo/v4")
+ * and allowing sub-modules of the pattern path
+ */
+export function matchesGoModule(modulePath: string, pattern: string): boolean {
+	const path = stripMajorVersion(modulePath);
+	const base = stripMajorVersion(pattern);
+	return path === base || path.startsWith(`${base}/`);
+}
+
+function stripMajorVersion(path: string): string {
+	return path.replace(/\/v\d+$/, "");
+}
@@ -0,0 +1,222 @@
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { parseVersionedName } from "../versions.js";
+import { asRecord, readText } from "./read.js";
+
+/**
+ * Installed packages read from a JavaScript lockfile
+ */
+export interface Lockfile {
+	/** Lockfile name, relative to the project root */
+	file: string;
+	/**
+	 * Exact installed version of every package in the lockfile. Direct dependencies
+	 * are resolved for the analyzed package (nested/importer entries win over hoisted ones).
+	 */
+	versions: Record<string, string>;
+}
+
+type LockfileParser = (
+	content: string,
+	packagePath: string,
+	declared: Record<string, string>,
+) => Record<string, string>;
+
+/**
+ * Lockfiles by package manager, in the order they are tried when the package manager is unknown
+ */
+const LOCKFILES: Record<string, { file: string; parse: LockfileParser }> = {
+	npm: { file: "package-lock.json", parse: parseNpmLock },
+	pnpm: { file: "pnpm-lock.yaml", parse: parsePnpmLock },
+	yarn: { file: "yarn.lock", parse: parseYarnLock },
+	bun: { file: "bun.lock", parse: parseBunLock },
+};
+
+/**
+ * Load the lockfile of the project at `root`, preferring the one of the detected
+ * package manager. For a workspace package, pass its path relative to `root` and its
+ * declared dependencies so direct dependencies resolve to the versions it actually uses.
+ */
+export function loadLockfile(
+	root: string,
+	packageManager: string | null,
+	packagePath = "",
+	declared: Record<string, string> = {},
+): Lockfile | undefined {
+	const preferred = packageManager ? LOCKFILES[packageManager] : undefined;
+	const candidates = [
+		...(preferred ? [preferred] : []),
+		...Object.values(LOCKFILES).filter((lockfile) => lockfile !== preferred),
+	];
+
+	for (const { file, parse } of candidates) {
+		const content = readText(join(root, file));
+		if (content === undefined) continue;
+
+		try {
+			return { file, versions: parse(content, packagePath, declared) };
+		} catch {
+			// Unparseable lockfile, try the next one
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * package-lock.json (lockfile v1, v2 and v3)
+ */
+function parseNpmLock(content: string, packagePath: string): Record<string, string> {
+	const lock = asRecord(JSON.parse(content));
+
+	const hoisted: Record<string, string> = {};
+	const nested: Record<string, string> = {};
+	const transitive: Record<string, string> = {};
+
+	// v2/v3: { packages: { "node_modules/next": { version }, "apps/web/node_modules/next": ... } }
+	for (const [path, entry] of Object.entries(asRecord(lock.packages))) {
+		const match = path.match(/^(?:(.+)\/)?node_modules\/((?:@[^/]+\/)?[^/]+)$/);
+		const version = asRecord(entry).version;
+		if (!match || typeof version !== "string") continue;
+
+		const [, parent = "", name] = match;
+		if (parent === "") {
+			hoisted[name] = version;
+		} else if (packagePath && parent === packagePath) {
+			nested[name] = version;
+		} else {
+			transitive[name] ??= version;
+		}
+	}
+
+	const versions = { ...transitive, ...hoisted, ...nested };
+
+	// v1: { dependencies: { next: { version } } }
+	for (const [name, entry] of Object.entries(asRecord(lock.dependencies))) {
+		const version = asRecord(entry).version;
+		if (!versions[name] && typeof version === "string") {
+			versions[name] = version;
+		}
+	}
+
+	return versions;
+}
+
+/**
+ * pnpm-lock.yaml (v5 to v9)
+ */
+function parsePnpmLock(content: string, packagePath: string): Record<string, string> {
+	const lock = asRecord(parseYaml(content));
+	const versions: Record<string, string> = {};
+
+	// Every installed package: "/next@15.1.0(react@19.0.0)" (v6), "next@15.1.0" (v9), "/next/15.1.0" (v5)
+	for (const key of Object.keys(asRecord(lock.packages))) {
+		const parsed = parsePnpmPackageKey(key);
+		if (parsed) versions[parsed.name] ??= parsed.version;
+	}
+
+	// Direct dependencies of the analyzed package, from its importer (or the top level before v5.3)
+	const importer = lock.importers ? asRecord(asRecord(lock.importers)[packagePath || "."]) : lock;
+	for (const field of ["dependencies", "devDependencies", "optionalDependencies"]) {
+		for (const [name, spec] of Object.entries(asRecord(importer[field]))) {
+			const raw = typeof spec === "string" ? spec : asRecord(spec).version;
+			if (typeof raw !== "string" || /^(link|file|workspace):/.test(raw)) continue;
+			versions[name] = cleanPnpmVersion(raw);
+		}
+	}
+
+	return versions;
+}
+
+function parsePnpmPackageKey(key: string): { name: string; version: string } | undefined {
+	const path = key.replace(/^\//, "").replace(/\(.*$/, "");
+	// Checked first, as v5 peer suffixes contain "@": "/react-dom/18.2.0_react@18.2.0"
+	const legacy = path.match(/^((?:@[^/]+\/)?[^/@]+)\/(\d[^/]*)$/);
+	if (legacy) return { name: legacy[1], version: cleanPnpmVersion(legacy[2]) };
+
+	const { name, range } = parseVersionedName(path);
+	return range ? { name, version: cleanPnpmVersion(range) } : undefined;
+}
+
+/**
+ * Strip peer dependency suffixes: "15.1.0(react@19.0.0)" and "15.1.0_react@19.0.0" -> "15.1.0"
+ */
+function cleanPnpmVersion(version: string): string {
+	return version.replace(/[(_].*$/, "");
+}
+
+/**
+ * yarn.lock (classic v1 and berry)
+ */
+function parseYarnLock(
+	content: string,
+	_packagePath: string,
+	declared: Record<string, string>,
+): Record<string, string> {
+	const versions: Record<string, string> = {};
+	const byDescriptor: Record<string, string> = {};
+	let descriptors: string[] = [];
+
+	for (const line of content.split("\n")) {
+		// Entry header: "next@^15.0.0", "next@npm:^15.1.0", next@^15:
+		if (/^\S.*:$/.test(line) && !line.startsWith("#")) {
+			// Berry's __metadata block has the lockfile version, not a package's
+			descriptors =
+				line === "__metadata:"
+					? []
+					: line
+							.slice(0, -1)
+							.split(",")
+							.map((descriptor) => descriptor.trim().replace(/^"|"$/g, ""));
+			continue;
+		}
+
+		const match = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+		if (!match) continue;
+
+		for (const descriptor of descriptors) {
+			const { name } = parseVersionedName(descriptor);
+			versions[name] ??= match[1];
+			byDescriptor[descriptor] = match[1];
+		}
+		descriptors = [];
+	}
+
+	// Resolve direct dependencies through the range they are declared with
+	for (const [name, range] of Object.entries(declared)) {
+		const version = byDescriptor[`${name}@${range}`] ?? byDescriptor[`${name}@npm:${range}`];
+		if (version) versions[name] = version;
+	}
+
+	return versions;
+}
+
+/**
+ * bun.lock (text lockfile; the binary bun.lockb is not supported)
+ */
+function parseBunLock(content: string, packagePath: string): Record<string, string> {
+	// bun.lock is JSON with trailing commas
+	const lock = asRecord(JSON.parse(content.replace(/,(\s*[}\]])/g, "$1")));
+	const workspaceName = asRecord(asRecord(lock.workspaces)[packagePath]).name;
+
+	const hoisted: Record<string, string> = {};
+	const nested: Record<string, string> = {};
+	const transitive: Record<string, string> = {};
+
+	// { packages: { "next": ["next@15.1.0", ...], "web/next": ["next@15.0.0", ...] } }
+	for (const [key, entry] of Object.entries(asRecord(lock.packages))) {
+		if (!Array.isArray(entry) || typeof entry[0] !== "string") continue;
+		const { name, range: version } = parseVersionedName(entry[0]);
+		if (!version || /^(workspace|link|file):/.test(version)) continue;
+
+		if (key === name) {
+			hoisted[name] = version;
+		} else if (workspaceName && key === `${workspaceName}/${name}`) {
+			nested[name] = version;
+		} else {
+			transitive[name] ??= version;
+		}
+	}
+
+	return { ...transitive, ...hoisted, ...nested };
+}
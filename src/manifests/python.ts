@@ -0,0 +1,249 @@
+import { existsSync, readdirSync } from "node:fs";
+import { join, relative, sep } from "node:path";
+import { asRecord, asStringArray, readText, readToml } from "./read.js";
+
+/**
+ * Load Python dependencies declared by the project at `cwd`.
+ * Returns normalized distribution names mapped to their version specifier
+ * (an empty string when unconstrained). When `manifests` is given, it is filled
+ * with the manifest file each dependency was read from.
+ */
+export function loadPythonDependencies(
+	cwd: string,
+	manifests?: Record<string, string>,
+): Record<string, string> {
+	const dependencies: Record<string, string> = {};
+
+	const from =
+		(manifest: string): AddDependency =>
+		(name, version = "") => {
+			const normalized = normalizePythonName(name);
+			if (normalized === "python") return;
+			// Keep the first non-empty specifier seen
+			if (!dependencies[normalized]) {
+				dependencies[normalized] = version.trim();
+				if (manifests) manifests[normalized] = manifest;
+			}
+		};
+
+	for (const path of findRequirementsFiles(cwd)) {
+		const add = from(relative(cwd, path).split(sep).join("/"));
+		for (const [name, version] of parseRequirements(readText(path) ?? "")) {
+			add(name, version);
+		}
+	}
+
+	collectPyproject(cwd, from("pyproject.toml"));
+	collectPipfile(cwd, from("Pipfile"));
+	collectSetupCfg(cwd, from("setup.cfg"));
+	collectUvLock(cwd, from("uv.lock"));
+
+	return dependencies;
+}
+
+/**
+ * Normalize a Python distribution name (PEP 503)
+ */
+export function normalizePythonName(name: string): string {
+	return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/**
+ * Parse a single PEP 508 requirement string (e.g. "fastapi[all]>=0.110; python_version>'3.8'")
+ */
+function parseRequirement(line: string): [string, string] | undefined {
+	const match = line.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;#@]*)/);
+	if (!match) return undefined;
+	return [match[1], match[2].replace(/^\(|\)$/g, "").trim()];
+}
+
+function parseRequirements(content: string): [string, string][] {
+	const requirements: [string, string][] = [];
+
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.replace(/\s#.*$/, "").trim();
+		// Skip comments, options (-r, -e, --index-url) and bare URLs, which have no name
+		// (unlike direct references such as "pkg @ https://...")
+		if (!line || line.startsWith("#") || line.startsWith("-") || /^[\w+.-]+:\/\//.test(line)) {
+			continue;
+		}
+		const requirement = parseRequirement(line);
+		if (requirement) requirements.push(requirement);
+	}
+
+	return requirements;
+}
+
+/**
+ * Find requirements*.txt at the root and *.txt inside a requirements/ directory
+ */
+function findRequirementsFiles(cwd: string): string[] {
+	const files = listFiles(cwd)
+		.filter((name) => /^requirements.*\.txt$/.test(name))
+		.map((name) => join(cwd, name));
+
+	const requirementsDir = join(cwd, "requirements");
+	if (existsSync(requirementsDir)) {
+		files.push(
+			...listFiles(requirementsDir)
+				.filter((name) => name.endsWith(".txt"))
+				.map((name) => join(requirementsDir, name)),
+		);
+	}
+
+	return files;
+}
+
+function listFiles(dir: string): string[] {
+	try {
+		return readdirSync(dir).sort();
+	} catch {
+		return [];
+	}
+}
+
+type AddDependency = (name: string, version?: string) => void;
+
+/**
+ * Collect PEP 621 ([project]), PEP 735 ([dependency-groups]) and Poetry dependencies
+ */
+function collectPyproject(cwd: string, add: AddDependency): void {
+	const pyproject = readToml(join(cwd, "pyproject.toml"));
+	if (!pyproject) return;
+
+	const project = asRecord(pyproject.project);
+	const requirementLists = [
+		project.dependencies,
+		...Object.values(asRecord(project["optional-dependencies"])),
+		...Object.values(asRecord(pyproject["dependency-groups"])),
+	];
+
+	for (const list of requirementLists) {
+		for (const line of asStringArray(list)) {
+			const requirement = parseRequirement(line);
+			if (requirement) add(...requirement);
+		}
+	}
+
+	const poetry = asRecord(asRecord(pyproject.tool).poetry);
+	const poetryTables = [
+		poetry.dependencies,
+		poetry["dev-dependencies"],
+		...Object.values(asRecord(poetry.group)).map((group) => asRecord(group).dependencies),
+	];
+
+	for (const table of poetryTables) {
+		collectVersionTable(table, add);
+	}
+}
+
+/**
+ * Collect [packages] and [dev-packages] from a Pipfile
+ */
+function collectPipfile(cwd: string, add: AddDependency): void {
+	const pipfile = readToml(join(cwd, "Pipfile"));
+	if (!pipfile) return;
+
+	collectVersionTable(pipfile.packages, add);
+	collectVersionTable(pipfile["dev-packages"], add);
+}
+
+/**
+ * Collect tables mapping names to a version string or { version = "..." }
+ */
+function collectVersionTable(table: unknown, add: AddDependency): void {
+	for (const [name, spec] of Object.entries(asRecord(table))) {
+		if (typeof spec === "string") {
+			add(name, spec === "*" ? "" : spec);
+		} else {
+			const version = asRecord(spec).version;
+			add(name, typeof version === "string" && version !== "*" ? version : "");
+		}
+	}
+}
+
+/**
+ * Collect install_requires, tests_require and extras_require from setup.cfg
+ */
+function collectSetupCfg(cwd: string, add: AddDependency): void {
+	const content = readText(join(cwd, "setup.cfg"));
+	if (!content) return;
+
+	let section = "";
+	let collecting = false;
+
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.replace(/\s[#;].*$/, "");
+		const sectionMatch = line.match(/^\[([^\]]+)\]/);
+		if (sectionMatch) {
+			section = sectionMatch[1].trim();
+			collecting = false;
+			continue;
+		}
+
+		const keyMatch = line.match(/^([A-Za-z0-9_.-]+)\s*[=:]\s*(.*)$/);
+		if (keyMatch) {
+			const key = keyMatch[1];
+			collecting =
+				(section === "options" && (key === "install_requires" || key === "tests_require")) ||
+				section === "options.extras_require";
+			addSetupCfgRequirement(keyMatch[2], collecting, add);
+			continue;
+		}
+
+		// Continuation lines are indented
+		if (/^\s+\S/.test(line)) {
+			addSetupCfgRequirement(line, collecting, add);
+		} else if (line.trim()) {
+			collecting = false;
+		}
+	}
+}
+
+function addSetupCfgRequirement(value: string, collecting: boolean, add: AddDependency): void {
+	if (!collecting || !value.trim()) return;
+	const requirement = parseRequirement(value);
+	if (requirement) add(...requirement);
+}
+
+/**
+ * Collect direct dependencies of the root project from uv.lock, using locked versions
+ */
+function collectUvLock(cwd: string, add: AddDependency): void {
+	const lock = readToml(join(cwd, "uv.lock"));
+	if (!lock || !Array.isArray(lock.package)) return;
+
+	const packages = lock.package.map(asRecord);
+	const versions = new Map<string, string>();
+	for (const pkg of packages) {
+		if (typeof pkg.name === "string" && typeof pkg.version === "string") {
+			versions.set(normalizePythonName(pkg.name), pkg.version);
+		}
+	}
+
+	// The root project is the package whose source is the workspace itself
+	const root = packages.find((pkg) => {
+		const source = asRecord(pkg.source);
+		return source.editable === "." || source.virtual === ".";
+	});
+
+	const names = root
+		? [
+				...toDependencyNames(root.dependencies),
+				...Object.values(asRecord(root["optional-dependencies"])).flatMap(toDependencyNames),
+				...Object.values(asRecord(root["dev-dependencies"])).flatMap(toDependencyNames),
+			]
+		: [...versions.keys()];
+
+	for (const name of names) {
+		const version = versions.get(normalizePythonName(name));
+		add(name, version ? `==${version}` : "");
+	}
+}
+
+function toDependencyNames(value: unknown): string[] {
+	if (!Array.isArray(value)) return [];
+	return value
+		.map((dep) => asRecord(dep).name)
+		.filter((name): name is string => typeof name === "string");
+}
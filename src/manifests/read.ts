@@ -0,0 +1,59 @@
+import { existsSync, readFileSync } from "node:fs";
+import { parse as parseToml } from "smol-toml";
+
+/**
+ * Read a text file, returning undefined if it is missing or unreadable
+ */
+export function readText(path: string): string | undefined {
+	if (!existsSync(path)) return undefined;
+
+	try {
+		return readFileSync(path, "utf-8");
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Read and parse a JSON file, returning undefined if it is missing or invalid
+ */
+export function readJson<T>(path: string): T | undefined {
+	const content = readText(path);
+	if (content === undefined) return undefined;
+
+	try {
+		return JSON.parse(content) as T;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Read and parse a TOML file, returning undefined if it is missing or invalid
+ */
+export function readToml(path: string): Record<string, unknown> | undefined {
+	const content = readText(path);
+	if (content === undefined) return undefined;
+
+	try {
+		return parseToml(content) as Record<string, unknown>;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Narrow an unknown value to a plain object
+ */
+export function asRecord(value: unknown): Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: {};
+}
+
+/**
+ * Narrow an unknown value to an array of strings
+ */
+export function asStringArray(value: unknown): string[] {
+	return Array.isArray(value) ? value.filter((item) => typeof item === "string") : [];
+}
@@ -0,0 +1,76 @@
+import { join } from "node:path";
+import { readText } from "./read.js";
+
+/**
+ * Load gems declared in the Gemfile at `cwd`, resolving versions from Gemfile.lock.
+ * Returns gem names mapped to the locked version, or the Gemfile requirement
+ * when there is no lockfile.
+ */
+export function loadGems(cwd: string): Record<string, string> {
+	const gems: Record<string, string> = {};
+
+	const gemfile = readText(join(cwd, "Gemfile"));
+	if (gemfile) {
+		Object.assign(gems, parseGemfile(gemfile));
+	}
+
+	const lockfile = readText(join(cwd, "Gemfile.lock"));
+	if (lockfile) {
+		const { dependencies, specs } = parseGemfileLock(lockfile);
+		for (const name of new Set([...Object.keys(gems), ...Object.keys(dependencies)])) {
+			gems[name] = specs[name] ?? gems[name] ?? dependencies[name];
+		}
+	}
+
+	return gems;
+}
+
+/**
+ * Parse `gem "name", "~> 1.0"` declarations from a Gemfile
+ */
+export function parseGemfile(content: string): Record<string, string> {
+	const gems: Record<string, string> = {};
+
+	for (const rawLine of content.split("\n")) {
+		const line = rawLine.replace(/#.*$/, "").trim();
+		const match = line.match(/^gem\s*\(?\s*["']([^"']+)["']\s*(.*)$/);
+		if (!match) continue;
+
+		// Version requirements are the string arguments before any keyword options
+		const requirements = [...match[2].matchAll(/,\s*["']([^"']+)["']/g)].map((m) => m[1]);
+		gems[match[1]] = requirements.join(", ");
+	}
+
+	return gems;
+}
+
+/**
+ * Parse Gemfile.lock into direct dependencies (DEPENDENCIES section)
+ * and resolved versions of every gem (GEM/GIT/PATH specs)
+ */
+export function parseGemfileLock(content: string): {
+	dependencies: Record<string, string>;
+	specs: Record<string, string>;
+} {
+	const dependencies: Record<string, string> = {};
+	const specs: Record<string, string> = {};
+	let section = "";
+
+	for (const line of content.split("\n")) {
+		if (/^[A-Z]/.test(line)) {
+			section = line.trim();
+			continue;
+		}
+
+		if (section === "DEPENDENCIES") {
+			const match = line.match(/^ {2}([^\s!(]+)!?(?:\s+\(([^)]+)\))?/);
+			if (match) dependencies[match[1]] = match[2] ?? "";
+		} else if (section === "GEM" || section === "GIT" || section === "PATH") {
+			// Resolved specs are indented by four spaces; their own dependencies by six
+			const match = line.match(/^ {4}([^\s(]+) \(([^)]+)\)$/);
+			if (match) specs[match[1]] = match[2].replace(/-[a-z].*$/, "");
+		}
+	}
+
+	return { dependencies, specs };
+}
@@ -0,0 +1,94 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { asRecord, readJson } from "../manifests/read.js";
+import type { SkillSearchProvider, SkillSearchResult } from "./index.js";
+
+/**
+ * Default time-to-live of cached search results (24 hours)
+ */
+export const DEFAULT_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+export interface SearchCacheOptions {
+	/** Cache directory (defaults to the user cache directory, e.g. ~/.cache/skills-detector) */
+	dir?: string;
+	/** How long cached results stay fresh, in milliseconds (defaults to 24 hours) */
+	ttl?: number;
+	/** Ignore cached results, but still cache new ones (defaults to false) */
+	refresh?: boolean;
+}
+
+interface CacheEntry {
+	provider: string;
+	query: string;
+	timestamp: number;
+	results: SkillSearchResult[];
+}
+
+/**
+ * Default cache directory, following platform conventions
+ */
+export function defaultCacheDir(): string {
+	const base =
+		process.env.XDG_CACHE_HOME ??
+		(process.platform === "darwin"
+			? join(homedir(), "Library", "Caches")
+			: process.platform === "win32"
+				? (process.env.LOCALAPPDATA ?? join(homedir(), "AppData", "Local"))
+				: join(homedir(), ".cache"));
+	return join(base, "skills-detector");
+}
+
+/**
+ * Wrap a provider so results are cached on disk, keyed by provider name and query.
+ * Failed searches are not cached, and cache read/write errors are ignored.
+ * Providers that aren't cacheable are returned as is.
+ */
+export function withSearchCache(
+	provider: SkillSearchProvider,
+	options: SearchCacheOptions = {},
+): SkillSearchProvider {
+	if (provider.cacheable === false) return provider;
+
+	const dir = options.dir ?? defaultCacheDir();
+	const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+
+	return {
+		name: provider.name,
+		async search(query) {
+			const key = createHash("sha256").update(`${provider.name}\0${query}`).digest("hex");
+			const path = join(dir, `${key}.json`);
+
+			if (!options.refresh) {
+				const cached = asRecord(readJson<unknown>(path)) as Partial<CacheEntry>;
+				if (
+					cached.provider === provider.name &&
+					cached.query === query &&
+					typeof cached.timestamp === "number" &&
+					Date.now() - cached.timestamp < ttl &&
+					Array.isArray(cached.results)
+				) {
+					return cached.results;
+				}
+			}
+
+			const results = await provider.search(query);
+
+			try {
+				mkdirSync(dir, { recursive: true });
+				const entry: CacheEntry = {
+					provider: provider.name,
+					query,
+					timestamp: Date.now(),
+					results,
+				};
+				writeFileSync(path, JSON.stringify(entry));
+			} catch {
+				// Caching is best-effort
+			}
+
+			return results;
+		},
+	};
+}
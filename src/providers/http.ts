@@ -0,0 +1,44 @@
+import { normalizeSearchResults, type SkillSearchProvider } from "./index.js";
+
+/**
+ * Registry searched by default
+ */
+export const DEFAULT_REGISTRY_URL = "https://skills.sh";
+
+/**
+ * Timeout of a single registry request
+ */
+const REQUEST_TIMEOUT = 30000;
+
+export interface HttpProviderOptions {
+	/** Registry base URL; searches GET `<baseUrl>/api/search?q=<query>` (defaults to https://skills.sh) */
+	baseUrl?: string;
+	/** Fetch implementation (defaults to the global fetch) */
+	fetch?: typeof fetch;
+}
+
+/**
+ * Search an HTTP skill registry. The response is JSON: an array or { skills: [...] }
+ * of refs or skill objects (see normalizeSearchResults).
+ */
+export function createHttpProvider(options: HttpProviderOptions = {}): SkillSearchProvider {
+	const baseUrl = (options.baseUrl ?? DEFAULT_REGISTRY_URL).replace(/\/+$/, "");
+	const fetchImpl = options.fetch ?? fetch;
+
+	return {
+		name: `http:${baseUrl}`,
+		async search(query) {
+			const url = `${baseUrl}/api/search?q=${encodeURIComponent(query)}`;
+			const response = await fetchImpl(url, {
+				headers: { accept: "application/json" },
+				signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+			});
+
+			if (!response.ok) {
+				throw new Error(`Registry search failed: ${response.status} ${response.statusText}`);
+			}
+
+			return normalizeSearchResults(await response.json());
+		},
+	};
+}
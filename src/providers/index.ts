@@ -0,0 +1,115 @@
+import { asRecord } from "../manifests/read.js";
+import { parseSkillRef } from "../skills.js";
+import { createHttpProvider } from "./http.js";
+import { createLocalProvider } from "./local.js";
+import { createNpxProvider } from "./npx.js";
+
+/**
+ * A skill found by a search provider
+ */
+export interface SkillSearchResult {
+	/** Skill ref ("owner/repo@skill") */
+	ref: string;
+	source: string;
+	skill: string;
+	description?: string;
+	/** Install count reported by the registry, when known */
+	installs?: number;
+}
+
+/**
+ * A backend that searches for skills
+ */
+export interface SkillSearchProvider {
+	/** Provider name, e.g. "npx" */
+	name: string;
+	/** Whether results can be cached on disk (defaults to true) */
+	cacheable?: boolean;
+	/**
+	 * Search for skills matching a query, best match first.
+	 * Throws when the search itself fails (as opposed to finding nothing).
+	 */
+	search(query: string): Promise<SkillSearchResult[]>;
+}
+
+/**
+ * Built-in providers, as set in the project config or on the command line
+ */
+export type SearchProviderConfig =
+	| { type: "npx" }
+	| { type: "http"; baseUrl?: string }
+	| { type: "local"; index: string };
+
+/**
+ * Create a built-in search provider
+ */
+export function createSearchProvider(
+	config: SearchProviderConfig,
+	cwd = process.cwd(),
+): SkillSearchProvider {
+	switch (config.type) {
+		case "npx":
+			return createNpxProvider();
+		case "http":
+			return createHttpProvider({ baseUrl: config.baseUrl });
+		case "local":
+			return createLocalProvider({ index: config.index, cwd });
+	}
+}
+
+/**
+ * Normalize skill listings from a registry response or index file. Accepts an array or
+ * { skills: [...] } of refs ("owner/repo@skill") or objects with a `ref`, an `id`
+ * ("owner/repo/skill" or "owner/repo@skill"), or a `source` and `name`/`skill`.
+ */
+export function normalizeSearchResults(data: unknown): SkillSearchResult[] {
+	const items = Array.isArray(data) ? data : asRecord(data).skills;
+	if (!Array.isArray(items)) return [];
+
+	const results: SkillSearchResult[] = [];
+
+	for (const item of items) {
+		const record = asRecord(item);
+		const ref = typeof item === "string" ? item : toRef(record);
+		if (!ref) continue;
+
+		const { source, skill } = parseSkillRef(ref);
+		if (!source.includes("/") || !skill) continue;
+
+		results.push({
+			ref,
+			source,
+			skill,
+			...(typeof record.description === "string" ? { description: record.description } : {}),
+			...(typeof record.installs === "number" ? { installs: record.installs } : {}),
+		});
+	}
+
+	return results;
+}
+
+function toRef(record: Record<string, unknown>): string | undefined {
+	if (typeof record.ref === "string") return record.ref;
+
+	const name = typeof record.skill === "string" ? record.skill : record.name;
+	if (typeof record.source === "string" && typeof name === "string") {
+		return `${record.source}@${name}`;
+	}
+
+	if (typeof record.id === "string") {
+		const match = record.id.match(/^([^/@]+\/[^/@]+)[/@](.+)$/);
+		return match ? `${match[1]}@${match[2]}` : undefined;
+	}
+
+	return undefined;
+}
+
+export {
+	DEFAULT_CACHE_TTL,
+	defaultCacheDir,
+	type SearchCacheOptions,
+	withSearchCache,
+} from "./cache.js";
+export { createHttpProvider, DEFAULT_REGISTRY_URL, type HttpProviderOptions } from "./http.js";
+export { createLocalProvider, type LocalProviderOptions } from "./local.js";
+export { createNpxProvider } from "./npx.js";
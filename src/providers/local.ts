@@ -0,0 +1,127 @@
+import { statSync } from "node:fs";
+import { basename, join, resolve } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { asRecord, readJson, readText } from "../manifests/read.js";
+import { walkFiles } from "../walk.js";
+import {
+	normalizeSearchResults,
+	type SkillSearchProvider,
+	type SkillSearchResult,
+} from "./index.js";
+
+export interface LocalProviderOptions {
+	/**
+	 * A JSON index (same format as registry responses) or a directory of skills,
+	 * each a SKILL.md with `name`/`description` frontmatter, e.g. owner/repo/skills/name/SKILL.md
+	 */
+	index: string;
+	/** Directory `index` is relative to (defaults to process.cwd()) */
+	cwd?: string;
+}
+
+/**
+ * Search a local skill index, for offline use, CI and tests
+ */
+export function createLocalProvider(options: LocalProviderOptions): SkillSearchProvider {
+	const path = resolve(options.cwd ?? process.cwd(), options.index);
+	let skills: SkillSearchResult[] | undefined;
+
+	return {
+		name: `local:${path}`,
+		// Reading the index is cheap, and it must reflect edits right away
+		cacheable: false,
+		async search(query) {
+			skills ??= loadIndex(path);
+			return searchIndex(skills, query);
+		},
+	};
+}
+
+function loadIndex(path: string): SkillSearchResult[] {
+	let isDirectory: boolean;
+	try {
+		isDirectory = statSync(path).isDirectory();
+	} catch {
+		throw new Error(`Skill index not found: ${path}`);
+	}
+
+	if (!isDirectory) {
+		const data = readJson<unknown>(path);
+		if (data === undefined) {
+			throw new Error(`Could not parse skill index ${path}`);
+		}
+		return normalizeSearchResults(data);
+	}
+
+	const skills: SkillSearchResult[] = [];
+	walkFiles(path, {}, (file) => {
+		if (basename(file.path) === "SKILL.md") {
+			const skill = readSkillFile(path, file.path);
+			if (skill) skills.push(skill);
+		}
+		return false;
+	});
+	return skills;
+}
+
+/**
+ * Read a SKILL.md; the source comes from its frontmatter or the first two directories
+ * of its path ("owner/repo"), and the name from its frontmatter or its directory
+ */
+function readSkillFile(root: string, path: string): SkillSearchResult | undefined {
+	const content = readText(join(root, path)) ?? "";
+	const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+	let meta: Record<string, unknown> = {};
+	try {
+		meta = asRecord(frontmatter ? parseYaml(frontmatter[1]) : undefined);
+	} catch {
+		// Invalid frontmatter, fall back to the path
+	}
+
+	const dirs = path.split("/").slice(0, -1);
+	const skill = typeof meta.name === "string" ? meta.name : dirs.at(-1);
+	const source =
+		typeof meta.source === "string"
+			? meta.source
+			: dirs.length >= 3
+				? dirs.slice(0, 2).join("/")
+				: `local/${basename(root)}`;
+	if (!skill) return undefined;
+
+	return {
+		ref: `${source}@${skill}`,
+		source,
+		skill,
+		...(typeof meta.description === "string" ? { description: meta.description } : {}),
+	};
+}
+
+/**
+ * Keep skills mentioning the first query word, ordered by how many query words they
+ * mention, then by whether the skill name itself matches, then by installs
+ */
+function searchIndex(skills: SkillSearchResult[], query: string): SkillSearchResult[] {
+	const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+	if (words.length === 0) return [];
+
+	const scored = skills
+		.map((skill) => {
+			const text = `${skill.ref} ${skill.description ?? ""}`.toLowerCase();
+			return {
+				skill,
+				words: words.filter((word) => text.includes(word)).length,
+				named: skill.skill.toLowerCase().includes(words[0]),
+				matchesTerm: text.includes(words[0]),
+			};
+		})
+		.filter((result) => result.matchesTerm);
+
+	return scored
+		.sort(
+			(a, b) =>
+				b.words - a.words ||
+				Number(b.named) - Number(a.named) ||
+				(b.skill.installs ?? 0) - (a.skill.installs ?? 0),
+		)
+		.map((result) => result.skill);
+}
@@ -0,0 +1,46 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { parseSkillRef } from "../skills.js";
+import type { SkillSearchProvider } from "./index.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Timeout of a single `npx skills find` run
+ */
+const SEARCH_TIMEOUT = 30000;
+
+/**
+ * On Windows npx is a batch file (npx.cmd), which Node only runs through a shell
+ */
+const USE_SHELL = process.platform === "win32";
+
+/**
+ * Search with the skills CLI (`npx skills find <query>`), parsing its terminal output
+ */
+export function createNpxProvider(): SkillSearchProvider {
+	return {
+		name: "npx",
+		async search(query) {
+			const { stdout } = await execFileAsync(
+				"npx",
+				["skills", "find", USE_SHELL ? quoteForCmd(query) : query],
+				{ encoding: "utf-8", timeout: SEARCH_TIMEOUT, shell: USE_SHELL },
+			);
+
+			// Strip ANSI codes and find lines matching owner/repo@skill pattern
+			// biome-ignore lint/suspicious/noControlCharactersInRegex: ANSI escape codes require control chars
+			const stripped = stdout.replace(/\x1b\[[0-9;]*m/g, "");
+			const matches = stripped.match(/^[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]+@[a-zA-Z0-9_:-]+/gm) ?? [];
+
+			return matches.map((ref) => ({ ref, ...parseSkillRef(ref) }));
+		},
+	};
+}
+
+/**
+ * Quote an argument for cmd.exe, dropping the characters it interprets even within quotes
+ */
+function quoteForCmd(arg: string): string {
+	return `"${arg.replace(/["%!^]/g, "")}"`;
+}
@@ -0,0 +1,418 @@
+import { resolve } from "node:path";
+import {
+	BUILTIN_CATALOG,
+	catalogFromMapping,
+	loadCatalog,
+	matchCatalog,
+	mergeCatalogs,
+	type SkillCatalog,
+} from "./catalog/index.js";
+import { loadConfig, type SkillsDetectorConfig } from "./config.js";
+import { type SearchCacheOptions, withSearchCache } from "./providers/cache.js";
+import {
+	createSearchProvider,
+	type SkillSearchProvider,
+	type SkillSearchResult,
+} from "./providers/index.js";
+import { groupSkillsBySource, parseSkillRef } from "./skills.js";
+import type { DetectionResult, RecommendationResult, SkillRecommendation } from "./types.js";
+import { parseVersionedName } from "./versions.js";
+
+export interface RecommendOptions {
+	/** Project directory, used to load the config and catalog files (defaults to process.cwd()) */
+	cwd?: string;
+	/** Project config to apply (loaded from `cwd` when omitted, `false` to ignore it) */
+	config?: SkillsDetectorConfig | false;
+	/** Catalogs (or catalog file paths) layered on top of the built-in catalog and the config's */
+	catalogs?: (SkillCatalog | string)[];
+	/** Search for skills for terms without curated skills (defaults to true) */
+	search?: boolean;
+	/** Search backend (defaults to the config's `searchProvider`, then `npx skills find`) */
+	provider?: SkillSearchProvider;
+	/** Maximum number of searches running at once (defaults to 4) */
+	concurrency?: number;
+	/** Cache search results on disk (defaults to true) */
+	cache?: boolean | SearchCacheOptions;
+	/** Maximum number of search results to recommend, across all terms (defaults to 10) */
+	limit?: number;
+	/** Maximum number of search results to recommend for a single term (defaults to 2) */
+	perTerm?: number;
+	/** Called with pinned and curated recommendations, before searching */
+	onCurated?: (recommendations: SkillRecommendation[]) => void;
+	/** Called after searching each term, with its relevant results (best match first) or the search error */
+	onSearch?: (term: string, results: SkillSearchResult[], error?: Error) => void;
+}
+
+/**
+ * Default maximum number of concurrent searches
+ */
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Default maximum number of search results recommended, overall and per term
+ */
+const DEFAULT_LIMIT = 10;
+const DEFAULT_PER_TERM = 2;
+
+/**
+ * Owners whose skills are official or widely maintained, ranked above other search results
+ */
+export const TRUSTED_SOURCES = [
+	"anthropics",
+	"vercel",
+	"vercel-labs",
+	"supabase",
+	"cloudflare",
+	"expo",
+	"microsoft",
+	"google",
+	"stripe",
+];
+
+/**
+ * Weights of the signals search results are ranked by
+ */
+const SCORE_WEIGHTS = {
+	/** Per detected term the skill matches */
+	term: 3,
+	/** Closeness of the skill name to its best-matching term (0-1) */
+	closeness: 3,
+	/** Source is trusted */
+	trusted: 2,
+	/** Source also provides curated skills */
+	curated: 2,
+	/** Position in the provider's results (1 for the first result, decreasing) */
+	position: 1,
+	/** Install count, on a log scale (1 at 100k installs) */
+	installs: 1,
+	/** Files importing its terms' dependencies, on a log scale (1 at 100 files, -1 when never imported) */
+	imports: 2,
+};
+
+/**
+ * Ecosystem-specific terms that indicate a skill is for a particular platform
+ */
+export const ECOSYSTEM_MARKERS: Record<string, string[]> = {
+	expo: ["expo", "react-native", "mobile"],
+	"react-native": ["expo", "react-native", "mobile"],
+	flutter: ["flutter", "dart"],
+	android: ["android", "kotlin", "gradle"],
+	ios: ["ios", "swift", "xcode", "cocoapods"],
+	unity: ["unity", "gamedev"],
+};
+
+/**
+ * Recommend skills for detection results: pinned skills first, then curated skills
+ * from the catalog, then the best-ranked search results for the remaining search terms
+ */
+export async function recommend(
+	detection: DetectionResult,
+	options: RecommendOptions = {},
+): Promise<RecommendationResult> {
+	const cwd = resolve(options.cwd ?? process.cwd());
+	const config =
+		options.config === undefined ? ((await loadConfig(cwd))?.config ?? {}) : options.config || {};
+
+	// Layer the project's catalogs and curated mapping on top of the built-in catalog
+	const catalog = mergeCatalogs(
+		BUILTIN_CATALOG,
+		...[...(config.catalogs ?? []), ...(options.catalogs ?? [])].map((catalog) =>
+			typeof catalog === "string" ? loadCatalog(catalog, cwd) : catalog,
+		),
+		catalogFromMapping(config.curated ?? {}),
+	);
+	const ecosystemMarkers = { ...ECOSYSTEM_MARKERS, ...config.ecosystemMarkers };
+	const blocked = config.blockSkills ?? [];
+	const isAllowed = (ref: string) =>
+		!blocked.some((block) => ref === block || parseSkillRef(ref).source === block);
+
+	// Pinned skills from the project config always come first,
+	// then curated/official skills from the catalog, by priority
+	const curated = matchCatalog(catalog, detection).filter((match) => isAllowed(match.skill));
+	const recommendations: SkillRecommendation[] = [
+		...(config.pinSkills ?? []).map((ref) => toRecommendation(ref, { kind: "pinned" })),
+		...curated.map((match) =>
+			toRecommendation(match.skill, {
+				kind: "curated",
+				entry: match.entry,
+				...(match.rationale ? { rationale: match.rationale } : {}),
+				matched: match.matched,
+			}),
+		),
+	];
+	options.onCurated?.(recommendations);
+
+	// Filter search terms:
+	// 1. Skip terms that already have curated skills
+	// 2. Skip generic language terms (javascript/typescript) when frameworks are detected
+	const curatedTermSet = new Set(
+		curated.filter((match) => !match.keepSearching).flatMap((match) => match.matched),
+	);
+	const termName = (term: string) => parseVersionedName(term).name;
+	let searchTerms = detection.searchTerms.filter((term) => !curatedTermSet.has(termName(term)));
+
+	// If we have frameworks, skip generic language skills (framework skills are better)
+	// Also if typescript is detected, skip javascript (typescript is a superset)
+	if (detection.frameworks.length > 0) {
+		searchTerms = searchTerms.filter(
+			(term) => termName(term) !== "javascript" && termName(term) !== "typescript",
+		);
+	} else if (searchTerms.some((term) => termName(term) === "typescript")) {
+		// No frameworks but has typescript - skip javascript
+		searchTerms = searchTerms.filter((term) => termName(term) !== "javascript");
+	}
+
+	if (options.search === false) {
+		searchTerms = [];
+	}
+
+	// Search for additional skills, several terms at a time
+	let provider =
+		options.provider ?? createSearchProvider(config.searchProvider ?? { type: "npx" }, cwd);
+	if (options.cache !== false) {
+		provider = withSearchCache(provider, options.cache === true ? {} : options.cache);
+	}
+
+	const failedSearches: Record<string, string> = {};
+	const found = await mapConcurrent(
+		searchTerms,
+		options.concurrency ?? DEFAULT_CONCURRENCY,
+		async (term) => {
+			let results: SkillSearchResult[] = [];
+			let error: Error | undefined;
+			try {
+				results = await searchSkills(
+					provider,
+					term,
+					detection.frameworks,
+					ecosystemMarkers,
+					isAllowed,
+				);
+			} catch (cause) {
+				// Search failed (network error, timeout, etc.), other terms still count
+				error = cause instanceof Error ? cause : new Error(String(cause));
+				failedSearches[term] = error.message;
+			}
+			options.onSearch?.(term, results, error);
+			return results;
+		},
+	);
+
+	// Rank search results from every term together, skipping pinned and curated skills
+	const trusted = [...TRUSTED_SOURCES, ...(config.trustedSources ?? [])];
+	const curatedSources = new Set(
+		catalog.entries.flatMap((entry) => entry.skills.map((ref) => parseSkillRef(ref).source)),
+	);
+	const detectedNames = [...new Set(detection.searchTerms.map(termName))];
+	const candidates = new Map<
+		string,
+		{ result: SkillSearchResult; term: string; position: number }
+	>();
+	found.forEach((results, index) => {
+		results.forEach((result, position) => {
+			if (recommendations.some((recommendation) => recommendation.ref === result.ref)) return;
+			const existing = candidates.get(result.ref);
+			if (!existing || position < existing.position) {
+				candidates.set(result.ref, {
+					result,
+					term: existing?.term ?? searchTerms[index],
+					position,
+				});
+			}
+		});
+	});
+
+	const ranked = [...candidates.values()]
+		.map(({ result, term, position }) => {
+			const terms = detectedNames.filter((name) =>
+				isRelevantSkill(result.ref, name, detection.frameworks, ecosystemMarkers),
+			);
+			const score = scoreSearchResult(result, terms, position, detection.imports, {
+				trusted: isTrustedSource(result.source, trusted),
+				curated: curatedSources.has(result.source),
+			});
+			return toRecommendation(result.ref, { kind: "search", term, terms, score });
+		})
+		.sort((a, b) => searchScore(b) - searchScore(a));
+
+	// Keep the top results overall, and at most `perTerm` found by a single term
+	const limit = options.limit ?? DEFAULT_LIMIT;
+	const perTerm = options.perTerm ?? DEFAULT_PER_TERM;
+	const perTermCounts = new Map<string, number>();
+	let selected = 0;
+	for (const recommendation of ranked) {
+		if (selected >= limit) break;
+		if (recommendation.reason.kind !== "search") continue;
+		const count = perTermCounts.get(recommendation.reason.term) ?? 0;
+		if (count >= perTerm) continue;
+		perTermCounts.set(recommendation.reason.term, count + 1);
+		recommendations.push(recommendation);
+		selected++;
+	}
+
+	// Dedupe, keeping the first reason for every skill
+	const unique = recommendations.filter(
+		(recommendation, index) =>
+			recommendations.findIndex((other) => other.ref === recommendation.ref) === index,
+	);
+
+	return {
+		skills: groupSkillsBySource(unique.map((recommendation) => recommendation.ref)),
+		recommendations: unique,
+		searchedTerms: searchTerms,
+		failedSearches,
+	};
+}
+
+/**
+ * Map items with at most `limit` calls in flight, keeping results in item order
+ */
+async function mapConcurrent<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const index = next++;
+			results[index] = await fn(items[index]);
+		}
+	};
+
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+	return results;
+}
+
+/**
+ * Score a search result by how many detected terms it matches, how closely its name
+ * matches them, its position in the provider's results, its source, its installs and,
+ * when imports were scanned, how much the project uses its terms
+ */
+function scoreSearchResult(
+	result: SkillSearchResult,
+	terms: string[],
+	position: number,
+	imports: Record<string, number> | undefined,
+	source: { trusted: boolean; curated: boolean },
+): number {
+	const closeness = Math.max(0, ...terms.map((term) => nameCloseness(result.skill, term)));
+	const installs = result.installs ? Math.min(1, Math.log10(result.installs + 1) / 5) : 0;
+	// Only terms detected from dependencies have import counts
+	const mostImported = Math.max(-1, ...terms.map((term) => imports?.[term] ?? -1));
+	const usage =
+		mostImported === -1
+			? 0
+			: mostImported === 0
+				? -1
+				: Math.min(1, Math.log10(mostImported + 1) / 2);
+	const score =
+		terms.length * SCORE_WEIGHTS.term +
+		closeness * SCORE_WEIGHTS.closeness +
+		(source.trusted ? SCORE_WEIGHTS.trusted : 0) +
+		(source.curated ? SCORE_WEIGHTS.curated : 0) +
+		SCORE_WEIGHTS.position / (position + 1) +
+		installs * SCORE_WEIGHTS.installs +
+		usage * SCORE_WEIGHTS.imports;
+	return Math.round(score * 100) / 100;
+}
+
+/**
+ * How closely a skill name matches a term: 1 for the exact name, 0.75 when the name
+ * starts with the term, 0.5 when it contains it, 0 when only the source matches
+ */
+function nameCloseness(skill: string, term: string): number {
+	const name = skill.toLowerCase();
+	const lowerTerm = term.toLowerCase();
+	if (name === lowerTerm) return 1;
+	if (new RegExp(`^${escapeRegex(lowerTerm)}([^a-z]|$)`).test(name)) return 0.75;
+	if (new RegExp(`(^|[^a-z])${escapeRegex(lowerTerm)}([^a-z]|$)`).test(name)) return 0.5;
+	return 0;
+}
+
+function isTrustedSource(source: string, trusted: string[]): boolean {
+	const owner = source.split("/")[0];
+	return trusted.includes(source) || trusted.includes(owner);
+}
+
+function searchScore({ reason }: SkillRecommendation): number {
+	return reason.kind === "search" ? reason.score : 0;
+}
+
+function toRecommendation(ref: string, reason: SkillRecommendation["reason"]): SkillRecommendation {
+	return { ref, ...parseSkillRef(ref), reason };
+}
+
+/**
+ * Check if a skill result is relevant to the search term and project context
+ */
+export function isRelevantSkill(
+	skillRef: string,
+	term: string,
+	detectedFrameworks: string[],
+	ecosystemMarkers: Record<string, string[]> = ECOSYSTEM_MARKERS,
+): boolean {
+	const lowerRef = skillRef.toLowerCase();
+	const lowerTerm = term.toLowerCase();
+
+	// Check for word-boundary match (not just substring)
+	// This prevents "express" matching "expression"
+	const wordBoundaryRegex = new RegExp(`(^|[^a-z])${escapeRegex(lowerTerm)}([^a-z]|$)`);
+	const hasTermMatch = wordBoundaryRegex.test(lowerRef);
+
+	if (!hasTermMatch) {
+		// Handle hyphenated terms (e.g., "testing-library" should match "react-testing-library")
+		if (lowerTerm.includes("-") && lowerRef.includes(lowerTerm)) {
+			// Continue to ecosystem check
+		} else {
+			return false;
+		}
+	}
+
+	// Check if the skill is for an ecosystem the project doesn't use
+	for (const [ecosystem, markers] of Object.entries(ecosystemMarkers)) {
+		// If any marker appears in the skill ref
+		const hasEcosystemMarker = markers.some((marker) => lowerRef.includes(marker));
+		if (hasEcosystemMarker) {
+			// Check if the project uses this ecosystem
+			const projectUsesEcosystem = detectedFrameworks.some(
+				(fw) => fw === ecosystem || markers.includes(fw.toLowerCase()),
+			);
+			if (!projectUsesEcosystem) {
+				return false; // Skill is for a different ecosystem
+			}
+		}
+	}
+
+	return true;
+}
+
+function escapeRegex(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Search for a term with a provider
+ * Returns the allowed results relevant to the term and project, best match first,
+ * and throws when the search itself fails
+ */
+async function searchSkills(
+	provider: SkillSearchProvider,
+	term: string,
+	detectedFrameworks: string[],
+	ecosystemMarkers: Record<string, string[]>,
+	isAllowed: (ref: string) => boolean,
+): Promise<SkillSearchResult[]> {
+	// Versioned terms ("nextjs@15") search for "nextjs 15" but must match "nextjs"
+	const { name, range } = parseVersionedName(term);
+	const query = range ? `${name} ${range}` : name;
+
+	const results = await provider.search(query);
+
+	// Keep results that are actually relevant to the search term and project
+	return results.filter(
+		({ ref }) => isAllowed(ref) && isRelevantSkill(ref, name, detectedFrameworks, ecosystemMarkers),
+	);
+}
@@ -0,0 +1,39 @@
+import type { SkillEntry } from "./types.js";
+
+/**
+ * Parse "owner/repo@skill" into source and skill name
+ */
+export function parseSkillRef(ref: string): { source: string; skill: string } {
+	const atIndex = ref.indexOf("@");
+	if (atIndex === -1) {
+		return { source: ref, skill: "" };
+	}
+	return {
+		source: ref.slice(0, atIndex),
+		skill: ref.slice(atIndex + 1),
+	};
+}
+
+/**
+ * Group skill refs by source and dedupe
+ */
+export function groupSkillsBySource(refs: string[]): SkillEntry[] {
+	const sourceMap = new Map<string, Set<string>>();
+
+	for (const ref of refs) {
+		const { source, skill } = parseSkillRef(ref);
+		if (!sourceMap.has(source)) {
+			sourceMap.set(source, new Set());
+		}
+		if (skill) {
+			sourceMap.get(source)?.add(skill);
+		}
+	}
+
+	return Array.from(sourceMap.entries())
+		.map(([source, skills]) => ({
+			source,
+			skills: Array.from(skills).sort(),
+		}))
+		.sort((a, b) => a.source.localeCompare(b.source));
+}
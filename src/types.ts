@@ -17,36 +17,177 @@ export interface DetectionResult {
 	/** Detected testing frameworks (e.g., vitest, jest, playwright) */
 	testing: string[];
 
+	/** Detected hosting and deployment platforms (e.g., vercel, cloudflare-workers, fly-io) */
+	platforms: string[];
+
+	/** Detected CI providers and notable pipeline steps (e.g., github-actions, docker-build) */
+	ci: string[];
+
+	/** Detected database engines (e.g., postgres, redis, sqlite) */
+	databases: string[];
+
+	/** Items detected by custom detectors in categories of their own, keyed by category */
+	custom?: Record<string, string[]>;
+
 	/** Combined search terms for skill discovery */
 	searchTerms: string[];
+
+	/** Resolved major version of detected items, when known (e.g. { nextjs: "15" }) */
+	versions: Record<string, string>;
+
+	/** Every detected item with its confidence score and the evidence behind it */
+	details: DetectedItem[];
+
+	/** Share of source code per language, sorted by bytes (only with `sampleFiles`) */
+	languageBreakdown?: LanguageStat[];
+
+	/** Number of source files importing each item detected from dependencies (only with `scanImports`) */
+	imports?: Record<string, number>;
+
+	/** Per-workspace breakdown keyed by package path (monorepos only) */
+	workspaces?: Record<string, WorkspaceDetection>;
 }
 
 /**
- * Framework detection patterns
+ * Detection categories reported by the built-in detectors
  */
-export interface FrameworkPattern {
+export type BuiltinCategory =
+	| "frameworks"
+	| "languages"
+	| "tools"
+	| "testing"
+	| "platforms"
+	| "ci"
+	| "databases";
+
+/**
+ * Detection categories: built-in ones, or any category introduced by a custom detector
+ */
+export type DetectionCategory = BuiltinCategory | (string & {});
+
+/**
+ * A single detected item with the evidence that triggered it
+ */
+export interface DetectedItem {
 	name: string;
-	/** Config files that indicate this framework */
-	configFiles?: string[];
-	/** Package.json dependencies that indicate this framework */
+	category: DetectionCategory;
+	/** Combined confidence of all evidence, from 0 to 1 */
+	confidence: number;
+	/** Major version, from the lockfile when available and the declared range otherwise */
+	version?: string;
+	/** False for items used without being imported in code, never reported as unused */
+	imported?: boolean;
+	evidence: Evidence[];
+}
+
+/**
+ * Kinds of evidence, from strongest to weakest
+ */
+export type EvidenceKind =
+	| "requiredFiles"
+	| "dependency"
+	| "configFile"
+	| "file"
+	| "sourceFiles"
+	| "transitiveDependency"
+	| "config"
+	| "imports"
+	| "unimported";
+
+/**
+ * Why an item was detected
+ */
+export interface Evidence {
+	kind: EvidenceKind;
+	/** File (relative to the analyzed directory) that triggered the detection */
+	source: string;
+	/** Matching dependency name (dependency, transitive dependency and import evidence only) */
+	dependency?: string;
+	/** Declared version range of the dependency (dependency evidence only) */
+	version?: string;
+	/** Exact version installed according to the lockfile (dependency evidence only) */
+	resolved?: string;
+	/** Additional human-readable detail */
+	detail?: string;
+}
+
+/**
+ * Sampled source code volume for a single language
+ */
+export interface LanguageStat {
+	name: string;
+	/** Number of source files */
+	files: number;
+	/** Total size of source files in bytes */
+	bytes: number;
+	/** Share of all sampled source bytes (0-100) */
+	percentage: number;
+}
+
+/**
+ * Detection results for a single workspace package
+ */
+export interface WorkspaceDetection {
+	/** Package name from the workspace's package.json */
+	name?: string;
+	frameworks: string[];
+	languages: string[];
+	tools: string[];
+	testing: string[];
+	platforms: string[];
+	ci: string[];
+	databases: string[];
+	custom?: Record<string, string[]>;
+	searchTerms: string[];
+	/** Resolved major version of the workspace's detected items, when known */
+	versions: Record<string, string>;
+}
+
+/**
+ * Dependency names shared by all pattern types, per ecosystem
+ */
+export interface DependencyPattern {
+	/** Package.json dependencies that indicate this item */
 	dependencies?: string[];
-	/** Files/directories that must exist together */
-	requiredFiles?: string[];
+	/** Python distributions (requirements.txt, pyproject.toml, Pipfile, ...) */
+	pythonDependencies?: string[];
+	/** Go module paths from go.mod (major version suffixes and sub-modules also match) */
+	goModules?: string[];
+	/** Rust crates from Cargo.toml */
+	crates?: string[];
+	/** Ruby gems from Gemfile/Gemfile.lock */
+	gems?: string[];
 }
 
 /**
- * Tool detection patterns
+ * Detection pattern shared by all categories
  */
-export interface ToolPattern {
+export interface DetectionPattern extends DependencyPattern {
 	name: string;
-	/** Config files that indicate this tool */
+	/** Config files that indicate this item */
 	configFiles?: string[];
-	/** Package.json dependencies that indicate this tool */
-	dependencies?: string[];
-	/** Other files that indicate this tool */
+	/** Other files/directories that indicate this item */
 	files?: string[];
+	/** Files/directories that must exist together, checked in order */
+	requiredFiles?: string[];
+	/**
+	 * Whether the dependencies are imported in code (defaults to true). Command-line and
+	 * config-driven tools, and libraries used from files the import scan doesn't read
+	 * (.vue, .svelte, stylesheets), set this to false so they aren't reported as unused.
+	 */
+	imported?: boolean;
 }
 
+/**
+ * Framework detection patterns
+ */
+export type FrameworkPattern = DetectionPattern;
+
+/**
+ * Tool detection patterns
+ */
+export type ToolPattern = DetectionPattern;
+
 /**
  * Context passed to detectors
  */
@@ -55,8 +196,24 @@ export interface DetectionContext {
 	cwd: string;
 	/** Parsed package.json (if exists) */
 	packageJson?: PackageJson;
-	/** All dependencies (deps + devDeps merged) */
+	/** All dependencies (deps, devDeps, peerDeps and optionalDeps merged) */
 	allDependencies: Record<string, string>;
+	/** Lockfile the installed versions were read from (e.g. "pnpm-lock.yaml") */
+	lockfile?: string;
+	/** Exact installed versions of every package in the lockfile */
+	lockedVersions?: Record<string, string>;
+	/** Installed packages that are not declared in package.json (only when requested) */
+	transitiveDependencies?: Record<string, string>;
+	/** Python dependencies keyed by normalized distribution name */
+	pythonDependencies: Record<string, string>;
+	/** Manifest file each Python dependency was read from */
+	pythonManifests?: Record<string, string>;
+	/** Direct Go module requirements from go.mod */
+	goModules: Record<string, string>;
+	/** Rust crates from Cargo.toml (including workspace members) keyed by normalized name */
+	crates: Record<string, string>;
+	/** Ruby gems from Gemfile, with versions resolved from Gemfile.lock */
+	gems: Record<string, string>;
 }
 
 /**
@@ -66,5 +223,65 @@ export interface PackageJson {
 	name?: string;
 	dependencies?: Record<string, string>;
 	devDependencies?: Record<string, string>;
+	peerDependencies?: Record<string, string>;
+	optionalDependencies?: Record<string, string>;
 	scripts?: Record<string, string>;
+	workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * Skills from a single source, as written to skills.json (skillman format)
+ */
+export interface SkillEntry {
+	/** Repository the skills come from ("owner/repo") */
+	source: string;
+	skills: string[];
+}
+
+/**
+ * Why a skill was recommended
+ */
+export type RecommendationReason =
+	| { kind: "pinned" }
+	| {
+			kind: "curated";
+			/** Id of the catalog entry that recommended the skill */
+			entry: string;
+			rationale?: string;
+			/** Detections that matched the catalog entry */
+			matched: string[];
+	  }
+	| {
+			kind: "search";
+			/** Search term that found the skill first */
+			term: string;
+			/** Every detected term the skill matches */
+			terms: string[];
+			/** Ranking score (higher is better) */
+			score: number;
+	  };
+
+/**
+ * A single recommended skill with the reason it was recommended
+ */
+export interface SkillRecommendation {
+	/** Skill ref ("owner/repo@skill") */
+	ref: string;
+	source: string;
+	skill: string;
+	reason: RecommendationReason;
+}
+
+/**
+ * Skills recommended for a project
+ */
+export interface RecommendationResult {
+	/** Recommended skills grouped by source, sorted and deduped */
+	skills: SkillEntry[];
+	/** Every recommended skill with its reason, in recommendation order */
+	recommendations: SkillRecommendation[];
+	/** Terms that were searched (after skipping those covered by curated skills) */
+	searchedTerms: string[];
+	/** Searched terms whose search failed, with the error message */
+	failedSearches: Record<string, string>;
 }
@@ -0,0 +1,69 @@
+/**
+ * A detection name with an optional major version range, e.g. "nextjs@>=15"
+ */
+export interface VersionedName {
+	name: string;
+	range?: string;
+}
+
+/**
+ * Extract the major version from a version or range
+ * ("^15.1.0" -> "15", "==2.0.1" -> "2", "v1.9.1" -> "1", ">=3 <5" -> "3").
+ * Returns undefined for tags, paths and wildcards ("latest", "workspace:*", "*").
+ */
+export function majorVersion(spec: string | undefined): string | undefined {
+	if (!spec) return undefined;
+
+	// npm aliases: "npm:other-name@^1.0.0"
+	const aliased = spec.startsWith("npm:") ? spec.slice(spec.lastIndexOf("@") + 1) : spec;
+	if (/^(workspace|file|link|git|github|https?):/.test(aliased)) return undefined;
+
+	const match = aliased.match(/^[\s^~=<>!v]*(\d+)(?:[.\s,|<>]|$)/);
+	return match?.[1].replace(/^0+(?=\d)/, "");
+}
+
+/**
+ * Split "name@range" into its parts (a leading "@" belongs to the name)
+ */
+export function parseVersionedName(value: string): VersionedName {
+	const atIndex = value.indexOf("@", 1);
+	if (atIndex === -1) {
+		return { name: value };
+	}
+	return { name: value.slice(0, atIndex), range: value.slice(atIndex + 1) };
+}
+
+/**
+ * Check if a major version satisfies a range of major versions.
+ * Supports "15", "=15", "^15", "~15", ">15", ">=15", "<15", "<=15",
+ * space-separated comparators (all must match) and "||" alternatives.
+ */
+export function satisfiesMajor(major: string | undefined, range: string | undefined): boolean {
+	if (!range || range === "*") return true;
+	if (major === undefined) return false;
+
+	const version = Number(major);
+
+	return range.split("||").some((alternative) =>
+		alternative
+			.trim()
+			.split(/\s+/)
+			.every((comparator) => {
+				const match = comparator.match(/^(>=|<=|>|<|=|\^|~)?v?(\d+)/);
+				if (!match) return false;
+				const bound = Number(match[2]);
+				switch (match[1]) {
+					case ">=":
+						return version >= bound;
+					case "<=":
+						return version <= bound;
+					case ">":
+						return version > bound;
+					case "<":
+						return version < bound;
+					default:
+						return version === bound;
+				}
+			}),
+	);
+}
@@ -0,0 +1,145 @@
+import { type Dirent, readdirSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { globToRegex, IGNORED_DIRS } from "./glob.js";
+import { readText } from "./manifests/read.js";
+
+/**
+ * Default maximum number of files visited by a walk
+ */
+const DEFAULT_MAX_FILES = 10000;
+
+/**
+ * Default maximum directory depth of a walk
+ */
+const DEFAULT_MAX_DEPTH = 8;
+
+export interface WalkOptions {
+	/** Stop after visiting this many files (defaults to 10000) */
+	maxFiles?: number;
+	/** Maximum directory depth (defaults to 8) */
+	maxDepth?: number;
+	/** Stop walking once Date.now() passes this timestamp */
+	deadline?: number;
+}
+
+export interface WalkedFile {
+	/** Path relative to the walk root (posix separators) */
+	path: string;
+	/** Size in bytes */
+	size: number;
+}
+
+interface IgnoreRule {
+	/** Directory (relative to the walk root) containing the .gitignore */
+	base: string;
+	regex: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+	/** Rules without a slash match the entry name at any depth */
+	matchName: boolean;
+}
+
+/**
+ * Walk source files under `cwd`, honoring .gitignore files (root and nested),
+ * skipping dotfiles and dependency/build directories.
+ * `visit` returns true to stop walking.
+ */
+export function walkFiles(
+	cwd: string,
+	options: WalkOptions,
+	visit: (file: WalkedFile) => boolean,
+): void {
+	const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+	const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+	let visited = 0;
+
+	const walk = (dir: string, depth: number, inherited: IgnoreRule[]): boolean => {
+		const rules = [...inherited, ...loadIgnoreRules(cwd, dir)];
+
+		let entries: Dirent[];
+		try {
+			entries = readdirSync(join(cwd, dir), { withFileTypes: true });
+		} catch {
+			return false;
+		}
+
+		for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+			if (entry.name.startsWith(".") || IGNORED_DIRS.has(entry.name)) continue;
+			if (options.deadline !== undefined && Date.now() > options.deadline) return true;
+
+			const path = dir ? `${dir}/${entry.name}` : entry.name;
+			const isDirectory = entry.isDirectory();
+			if (isIgnored(rules, path, entry.name, isDirectory)) continue;
+
+			if (isDirectory) {
+				if (depth < maxDepth && walk(path, depth + 1, rules)) return true;
+				continue;
+			}
+
+			if (!entry.isFile()) continue;
+			if (++visited > maxFiles) return true;
+
+			let size = 0;
+			try {
+				size = statSync(join(cwd, path)).size;
+			} catch {
+				continue;
+			}
+
+			if (visit({ path, size })) return true;
+		}
+
+		return false;
+	};
+
+	walk("", 0, []);
+}
+
+/**
+ * Parse the .gitignore in `dir` (relative to `cwd`) into ignore rules
+ */
+function loadIgnoreRules(cwd: string, dir: string): IgnoreRule[] {
+	const content = readText(join(cwd, dir, ".gitignore"));
+	if (!content) return [];
+
+	const rules: IgnoreRule[] = [];
+
+	for (const rawLine of content.split("\n")) {
+		let line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+
+		const negated = line.startsWith("!");
+		if (negated) line = line.slice(1);
+
+		const directoryOnly = line.endsWith("/");
+		line = line.replace(/\/+$/, "");
+
+		// A slash at the start or middle anchors the pattern to the .gitignore directory
+		const matchName = !line.includes("/");
+		line = line.replace(/^\//, "");
+		if (!line) continue;
+
+		rules.push({ base: dir, regex: globToRegex(line), negated, directoryOnly, matchName });
+	}
+
+	return rules;
+}
+
+/**
+ * Check an entry against ignore rules; the last matching rule wins
+ */
+function isIgnored(rules: IgnoreRule[], path: string, name: string, isDirectory: boolean): boolean {
+	let ignored = false;
+
+	for (const rule of rules) {
+		if (rule.directoryOnly && !isDirectory) continue;
+
+		const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+		const target = rule.matchName ? name : relative;
+		if (rule.regex.test(target)) {
+			ignored = !rule.negated;
+		}
+	}
+
+	return ignored;
+}
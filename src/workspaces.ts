@@ -0,0 +1,123 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { findGlobMatches, isGlobPattern } from "./glob.js";
+import { asStringArray, readJson, readText } from "./manifests/read.js";
+import type { PackageJson } from "./types.js";
+
+/**
+ * Discover workspace packages declared by the monorepo at `cwd`.
+ * Returns package paths relative to `cwd` (posix separators), sorted.
+ */
+export function detectWorkspaces(cwd: string, packageJson?: PackageJson): string[] {
+	const patterns = [
+		...readPnpmWorkspacePatterns(cwd),
+		...readPackageJsonWorkspacePatterns(packageJson),
+		...readLernaPatterns(cwd),
+	];
+
+	const found = new Set(expandWorkspacePatterns(cwd, patterns, ["package.json"]));
+
+	for (const path of readNxProjects(cwd)) {
+		found.add(path);
+	}
+
+	found.delete(".");
+	return [...found].sort();
+}
+
+/**
+ * Expand workspace globs (e.g. "apps/*", "packages/**", "!packages/legacy")
+ * into directories that contain at least one of the given marker files
+ */
+export function expandWorkspacePatterns(
+	cwd: string,
+	patterns: string[],
+	markerFiles: string[],
+): string[] {
+	const included = new Set<string>();
+	const excluded = new Set<string>();
+
+	for (const raw of patterns) {
+		const negated = raw.startsWith("!");
+		const pattern = normalizePattern(negated ? raw.slice(1) : raw);
+		if (!pattern) continue;
+
+		for (const path of expandPattern(cwd, pattern)) {
+			if (negated) {
+				excluded.add(path);
+			} else if (markerFiles.some((file) => existsSync(join(cwd, path, file)))) {
+				included.add(path);
+			}
+		}
+	}
+
+	return [...included].filter((path) => !excluded.has(path));
+}
+
+function normalizePattern(pattern: string): string {
+	return pattern
+		.trim()
+		.replace(/^\.\//, "")
+		.replace(/\/+$/, "")
+		.replace(/\/package\.json$/, "");
+}
+
+function expandPattern(cwd: string, pattern: string): string[] {
+	if (isGlobPattern(pattern)) {
+		return findGlobMatches(cwd, pattern, { type: "directory" });
+	}
+	return existsSync(join(cwd, pattern)) ? [pattern] : [];
+}
+
+/**
+ * Read `packages` from pnpm-workspace.yaml
+ */
+function readPnpmWorkspacePatterns(cwd: string): string[] {
+	const content = readText(join(cwd, "pnpm-workspace.yaml"));
+	if (content === undefined) return [];
+
+	try {
+		const parsed = parseYaml(content) as { packages?: unknown } | null;
+		return asStringArray(parsed?.packages);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Read `workspaces` from package.json (npm, yarn and bun)
+ */
+function readPackageJsonWorkspacePatterns(packageJson?: PackageJson): string[] {
+	const workspaces = packageJson?.workspaces;
+	if (Array.isArray(workspaces)) {
+		return asStringArray(workspaces);
+	}
+	// Yarn classic also accepts { packages: [...], nohoist: [...] }
+	return asStringArray(workspaces?.packages);
+}
+
+/**
+ * Read `packages` from lerna.json (defaults to "packages/*")
+ */
+function readLernaPatterns(cwd: string): string[] {
+	const config = readJson<{ packages?: unknown }>(join(cwd, "lerna.json"));
+	if (!config) return [];
+	return config.packages ? asStringArray(config.packages) : ["packages/*"];
+}
+
+/**
+ * Find Nx projects (directories with project.json) under the configured apps/libs directories
+ */
+function readNxProjects(cwd: string): string[] {
+	const config = readJson<{ workspaceLayout?: { appsDir?: string; libsDir?: string } }>(
+		join(cwd, "nx.json"),
+	);
+	if (!config) return [];
+
+	const appsDir = config.workspaceLayout?.appsDir ?? "apps";
+	const libsDir = config.workspaceLayout?.libsDir ?? "libs";
+	const patterns = [...new Set([appsDir, libsDir, "packages"])].map((dir) => `${dir}/**`);
+
+	return expandWorkspacePatterns(cwd, patterns, ["project.json", "package.json"]);
+}
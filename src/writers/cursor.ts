@@ -0,0 +1,27 @@
+import { formatSkillList } from "./format.js";
+import type { OutputWriter } from "./index.js";
+
+/**
+ * A Cursor project rule (.cursor/rules/*.mdc) listing the recommended skills,
+ * always applied. The file is fully generated.
+ */
+export const cursorRulesWriter: OutputWriter = {
+	name: "cursor",
+	defaultPath: ".cursor/rules/skills.mdc",
+	description: "Cursor project rule",
+	render({ result }) {
+		const lines = [
+			"---",
+			"description: Agent skills recommended for this project",
+			"alwaysApply: true",
+			"---",
+			"",
+			"# Agent Skills",
+			"",
+			"Generated by skills-detector. Prefer the guidance of these skills when they apply:",
+			"",
+			...(result.recommendations.length > 0 ? formatSkillList(result) : ["No skills recommended."]),
+		];
+		return { content: `${lines.join("\n")}\n` };
+	},
+};
@@ -0,0 +1,34 @@
+import type { RecommendationResult, SkillRecommendation } from "../types.js";
+
+/**
+ * Compare two files line by line, ignoring order: "+line" for added lines
+ * and "-line" for removed ones
+ */
+export function diffLines(existing: string, next: string): string[] {
+	const before = existing.split("\n").map((line) => line.trimEnd());
+	const after = next.split("\n").map((line) => line.trimEnd());
+	return [
+		...after.filter((line) => line && !before.includes(line)).map((line) => `+${line}`),
+		...before.filter((line) => line && !after.includes(line)).map((line) => `-${line}`),
+	];
+}
+
+/**
+ * One Markdown list item per recommended skill, with the reason it was recommended
+ */
+export function formatSkillList(result: RecommendationResult): string[] {
+	return result.recommendations.map(
+		(recommendation) => `- \`${recommendation.ref}\`: ${describeReason(recommendation)}`,
+	);
+}
+
+function describeReason({ reason }: SkillRecommendation): string {
+	switch (reason.kind) {
+		case "pinned":
+			return "pinned in the project config";
+		case "curated":
+			return reason.rationale ?? `curated for ${reason.matched.join(", ")}`;
+		case "search":
+			return `found for ${reason.terms.join(", ")}`;
+	}
+}
@@ -0,0 +1,111 @@
+import type { DetectionResult, RecommendationResult } from "../types.js";
+import { cursorRulesWriter } from "./cursor.js";
+import { lockfileWriter } from "./lockfile.js";
+import { agentsMdWriter, claudeMdWriter } from "./markdown.js";
+import { type SkillsJsonDiff, skillmanWriter } from "./skillman.js";
+
+/**
+ * Everything a writer renders its output from
+ */
+export interface WriterContext {
+	detection: DetectionResult;
+	result: RecommendationResult;
+	/** Content of the existing output file, if any */
+	existing?: string;
+	/** Merge with the existing file, keeping manual edits (default), or replace it */
+	mode?: "merge" | "overwrite";
+}
+
+/**
+ * A rendered output file
+ */
+export interface WriterOutput {
+	content: string;
+	/** How the listed skills changed compared to the existing file, when the format tracks it */
+	diff?: SkillsJsonDiff;
+}
+
+/**
+ * Renders recommendations in a format an agent or installer reads
+ */
+export interface OutputWriter {
+	/** Format name, as passed to --format */
+	name: string;
+	/** Output file, relative to the project root */
+	defaultPath: string;
+	description?: string;
+	/** Render the output file, combined with the existing one when given */
+	render(context: WriterContext): WriterOutput;
+	/**
+	 * Compare an existing file with a fresh render, returning a readable line per drifted
+	 * item, or none when up to date (defaults to comparing lines)
+	 */
+	diff?(existing: string, next: string): string[];
+}
+
+/**
+ * Writers available out of the box
+ */
+export const BUILTIN_WRITERS: readonly OutputWriter[] = [
+	skillmanWriter,
+	agentsMdWriter,
+	claudeMdWriter,
+	cursorRulesWriter,
+	lockfileWriter,
+];
+
+const registeredWriters: OutputWriter[] = [];
+
+/**
+ * Register a writer, selectable by name like the built-in ones (and replacing a built-in
+ * writer with the same name). Returns a function that unregisters it.
+ */
+export function registerWriter(writer: OutputWriter): () => void {
+	registeredWriters.push(writer);
+
+	return () => {
+		const index = registeredWriters.indexOf(writer);
+		if (index !== -1) registeredWriters.splice(index, 1);
+	};
+}
+
+/**
+ * Every available writer, with registered writers replacing built-in ones of the same name
+ */
+export function listWriters(): OutputWriter[] {
+	const writers = new Map<string, OutputWriter>();
+	for (const writer of [...BUILTIN_WRITERS, ...registeredWriters]) {
+		writers.set(writer.name, writer);
+	}
+	return [...writers.values()];
+}
+
+/**
+ * Find a writer by format name
+ */
+export function getWriter(name: string): OutputWriter | undefined {
+	return listWriters().find((writer) => writer.name === name);
+}
+
+export { cursorRulesWriter } from "./cursor.js";
+export { diffLines, formatSkillList } from "./format.js";
+export { lockfileWriter } from "./lockfile.js";
+export {
+	agentsMdWriter,
+	claudeMdWriter,
+	createMarkdownWriter,
+	type MarkdownWriterOptions,
+} from "./markdown.js";
+export {
+	buildSkillsJson,
+	diffSkillsJson,
+	mergeSkillsJson,
+	overwriteSkillsJson,
+	parseSkillsJson,
+	readSkillsJson,
+	SKILLS_JSON_FILE,
+	type SkillsJson,
+	type SkillsJsonDetected,
+	type SkillsJsonDiff,
+	skillmanWriter,
+} from "./skillman.js";
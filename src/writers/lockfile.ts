@@ -0,0 +1,21 @@
+import type { OutputWriter } from "./index.js";
+
+/**
+ * A plain list of skill refs, one per line and sorted, for scripts and other installers.
+ * The file is fully generated.
+ */
+export const lockfileWriter: OutputWriter = {
+	name: "lockfile",
+	defaultPath: "skills.lock",
+	description: "plain list of skill refs",
+	render({ result }) {
+		const refs = result.skills.flatMap(({ source, skills }) =>
+			skills.length > 0 ? skills.map((skill) => `${source}@${skill}`) : [source],
+		);
+		const lines = [
+			"# Generated by skills-detector, one skill per line (owner/repo@skill)",
+			...refs,
+		];
+		return { content: `${lines.join("\n")}\n` };
+	},
+};
@@ -0,0 +1,77 @@
+import { formatSkillList } from "./format.js";
+import type { OutputWriter } from "./index.js";
+
+const SECTION_START = "<!-- skills-detector:start -->";
+const SECTION_END = "<!-- skills-detector:end -->";
+
+export interface MarkdownWriterOptions {
+	/** Format name, as passed to --format */
+	name: string;
+	/** Markdown file the section goes into, relative to the project root */
+	file: string;
+	/** Section heading (defaults to "Agent Skills") */
+	heading?: string;
+}
+
+/**
+ * Write the recommended skills as a section of a Markdown instructions file (AGENTS.md,
+ * CLAUDE.md...). Only the section between skills-detector markers is regenerated; the
+ * rest of the file is kept, and the section is appended when the file has none yet.
+ */
+export function createMarkdownWriter(options: MarkdownWriterOptions): OutputWriter {
+	const heading = options.heading ?? "Agent Skills";
+
+	return {
+		name: options.name,
+		defaultPath: options.file,
+		description: `"${heading}" section of ${options.file}`,
+		render({ detection, result, existing }) {
+			const detected = [
+				...detection.frameworks,
+				...detection.tools,
+				...detection.testing,
+				...detection.platforms,
+				...detection.ci,
+				...detection.databases,
+			];
+			const section = [
+				SECTION_START,
+				`## ${heading}`,
+				"",
+				"Skills recommended for this project by skills-detector. This section is regenerated, so edit outside of it.",
+				...(detected.length > 0 ? ["", `Detected: ${detected.join(", ")}`] : []),
+				"",
+				...(result.recommendations.length > 0
+					? formatSkillList(result)
+					: ["No skills recommended."]),
+				SECTION_END,
+			].join("\n");
+
+			return { content: replaceSection(existing, section) };
+		},
+	};
+}
+
+function replaceSection(existing: string | undefined, section: string): string {
+	if (!existing?.trim()) {
+		return `${section}\n`;
+	}
+
+	const start = existing.indexOf(SECTION_START);
+	const end = existing.indexOf(SECTION_END, start);
+	if (start === -1 || end === -1) {
+		return `${existing.trimEnd()}\n\n${section}\n`;
+	}
+
+	return existing.slice(0, start) + section + existing.slice(end + SECTION_END.length);
+}
+
+/**
+ * "Agent Skills" section of AGENTS.md
+ */
+export const agentsMdWriter = createMarkdownWriter({ name: "agents-md", file: "AGENTS.md" });
+
+/**
+ * "Agent Skills" section of CLAUDE.md
+ */
+export const claudeMdWriter = createMarkdownWriter({ name: "claude-md", file: "CLAUDE.md" });
@@ -0,0 +1,323 @@
+import { asRecord, asStringArray, readText } from "../manifests/read.js";
+import { groupSkillsBySource } from "../skills.js";
+import type {
+	DetectionResult,
+	RecommendationResult,
+	SkillEntry,
+	SkillRecommendation,
+} from "../types.js";
+import { parseVersionedName } from "../versions.js";
+import type { OutputWriter } from "./index.js";
+
+/**
+ * File the CLI writes, in the skillman format
+ */
+export const SKILLS_JSON_FILE = "skills.json";
+
+const SKILLS_JSON_SCHEMA = "https://unpkg.com/skillman/skills_schema.json";
+
+/**
+ * Detection summary stored in skills.json, with the skills it led to
+ */
+export interface SkillsJsonDetected extends Omit<DetectionResult, "details"> {
+	timestamp: string;
+	/** Generated skill refs, with the detections that triggered each one */
+	recommended?: Record<string, string[]>;
+	/** Generated skill refs whose triggering detections are gone, kept until removed by hand */
+	stale?: string[];
+}
+
+export interface SkillsJson {
+	$schema: string;
+	detected: SkillsJsonDetected;
+	skills: SkillEntry[];
+}
+
+/**
+ * How a new skills.json was combined with the existing one
+ */
+export interface SkillsJsonDiff {
+	/** Skills that were not in the existing file */
+	added: string[];
+	/** Skills from the existing file that were dropped (overwrite only) */
+	removed: string[];
+	/** Skills from the existing file that were not generated, kept as manual entries */
+	kept: string[];
+	/** Generated skills whose triggering detections disappeared, with those detections */
+	stale: Record<string, string[]>;
+}
+
+/**
+ * Build skills.json from detection results and recommendations
+ * (evidence is only useful for debugging, so it is left out)
+ */
+export function buildSkillsJson(
+	detection: DetectionResult,
+	result: RecommendationResult,
+): SkillsJson {
+	// Import counts change with every edit, so they are left out too
+	const { details: _details, imports: _imports, ...summary } = detection;
+	const recommended: Record<string, string[]> = {};
+	for (const recommendation of result.recommendations) {
+		// Pinned skills come from the config, so they are treated like manual entries
+		if (recommendation.reason.kind !== "pinned") {
+			recommended[recommendation.ref] = triggers(recommendation);
+		}
+	}
+
+	return {
+		$schema: SKILLS_JSON_SCHEMA,
+		detected: {
+			...summary,
+			timestamp: new Date().toISOString(),
+			recommended,
+		},
+		skills: result.skills,
+	};
+}
+
+/**
+ * Parse skills.json content, returning undefined if it is invalid
+ */
+export function parseSkillsJson(content: string): SkillsJson | undefined {
+	let data: Record<string, unknown>;
+	try {
+		data = asRecord(JSON.parse(content));
+	} catch {
+		return undefined;
+	}
+	if (!Array.isArray(data.skills)) return undefined;
+	return data as unknown as SkillsJson;
+}
+
+/**
+ * Read an existing skills.json, returning undefined if it is missing or invalid
+ */
+export function readSkillsJson(path: string): SkillsJson | undefined {
+	const content = readText(path);
+	return content === undefined ? undefined : parseSkillsJson(content);
+}
+
+/**
+ * skills.json for skillman (`npx skillman install`), merged with the existing file
+ * so that skills added by hand survive
+ */
+export const skillmanWriter: OutputWriter = {
+	name: "skillman",
+	defaultPath: SKILLS_JSON_FILE,
+	description: "skills.json for skillman",
+	render({ detection, result, existing, mode }) {
+		const previous = existing === undefined ? undefined : parseSkillsJson(existing);
+		const next = buildSkillsJson(detection, result);
+		const { skillsJson, diff } =
+			mode === "overwrite" ? overwriteSkillsJson(previous, next) : mergeSkillsJson(previous, next);
+		return { content: `${JSON.stringify(skillsJson, null, 2)}\n`, diff };
+	},
+	diff(existing, next) {
+		const previous = parseSkillsJson(existing);
+		const skillsJson = parseSkillsJson(next);
+		if (!previous) return [`${SKILLS_JSON_FILE} is not valid`];
+		return skillsJson ? diffSkillsJson(previous, skillsJson) : [];
+	},
+};
+
+/**
+ * Merge a freshly built skills.json into the existing one. Manual entries (skills the
+ * detector did not generate) are kept, new recommendations are added, and generated
+ * skills whose triggering detections disappeared are kept but flagged as stale.
+ */
+export function mergeSkillsJson(
+	existing: SkillsJson | undefined,
+	next: SkillsJson,
+): { skillsJson: SkillsJson; diff: SkillsJsonDiff } {
+	const existingRefs = existing ? skillRefs(existing.skills) : [];
+	const nextRefs = skillRefs(next.skills);
+	// Hand-written files (parsed as long as they list skills) may have no detected block
+	const previous = existing?.detected ? previousTriggers(existing.detected, existingRefs) : {};
+
+	const detectedNames = new Set(detectionNames(next.detected));
+	const kept: string[] = [];
+	const stale: Record<string, string[]> = {};
+	const recommended = { ...next.detected.recommended };
+
+	for (const ref of existingRefs) {
+		if (nextRefs.includes(ref)) continue;
+
+		const previousTriggers = previous[ref];
+		if (previousTriggers === undefined) {
+			kept.push(ref);
+		} else if (
+			previousTriggers.length === 0 ||
+			!previousTriggers.some((name) => detectedNames.has(name))
+		) {
+			stale[ref] = previousTriggers;
+		} else {
+			// Still triggered, but no longer ranked among the top results
+			recommended[ref] = previousTriggers.filter((name) => detectedNames.has(name));
+		}
+	}
+
+	const refs = [...nextRefs, ...existingRefs.filter((ref) => !nextRefs.includes(ref))];
+	const staleRefs = Object.keys(stale);
+
+	return {
+		skillsJson: {
+			...next,
+			detected: {
+				...next.detected,
+				recommended,
+				...(staleRefs.length > 0 ? { stale: staleRefs } : {}),
+			},
+			skills: groupSkillsBySource(refs),
+		},
+		diff: {
+			added: nextRefs.filter((ref) => !existingRefs.includes(ref)),
+			removed: [],
+			kept,
+			stale,
+		},
+	};
+}
+
+/**
+ * Triggering detections of the skills the existing file says were generated. Files written
+ * before `recommended` was recorded only list skills the detector generated, so each of
+ * them is taken as triggered by any of the search terms detected back then.
+ */
+function previousTriggers(detected: SkillsJsonDetected, refs: string[]): Record<string, string[]> {
+	const previous: Record<string, string[]> = { ...detected.recommended };
+	if (detected.recommended === undefined) {
+		const terms = asStringArray(detected.searchTerms).map((term) => parseVersionedName(term).name);
+		for (const ref of refs) {
+			previous[ref] = terms;
+		}
+	}
+	for (const ref of detected.stale ?? []) {
+		previous[ref] ??= [];
+	}
+	return previous;
+}
+
+/**
+ * Diff a freshly built skills.json against the existing one it replaces wholesale
+ */
+export function overwriteSkillsJson(
+	existing: SkillsJson | undefined,
+	next: SkillsJson,
+): { skillsJson: SkillsJson; diff: SkillsJsonDiff } {
+	const existingRefs = existing ? skillRefs(existing.skills) : [];
+	const nextRefs = skillRefs(next.skills);
+
+	return {
+		skillsJson: next,
+		diff: {
+			added: nextRefs.filter((ref) => !existingRefs.includes(ref)),
+			removed: existingRefs.filter((ref) => !nextRefs.includes(ref)),
+			kept: [],
+			stale: {},
+		},
+	};
+}
+
+/**
+ * Flatten skill entries into refs; an entry without skills stands for the whole source
+ */
+function skillRefs(entries: SkillEntry[]): string[] {
+	return entries.flatMap((entry) =>
+		asStringArray(entry.skills).length > 0
+			? asStringArray(entry.skills).map((skill) => `${entry.source}@${skill}`)
+			: [entry.source],
+	);
+}
+
+/**
+ * Detection names that triggered a recommendation
+ */
+function triggers({ reason }: SkillRecommendation): string[] {
+	switch (reason.kind) {
+		case "pinned":
+			return [];
+		case "curated":
+			return reason.matched;
+		case "search":
+			return reason.terms;
+	}
+}
+
+function detectionNames(detected: SkillsJsonDetected): string[] {
+	return [
+		...detected.frameworks,
+		...detected.languages,
+		...detected.tools,
+		...detected.testing,
+		...detected.platforms,
+		...detected.ci,
+		...detected.databases,
+		...Object.values(detected.custom ?? {}).flat(),
+		...detected.searchTerms.map((term) => parseVersionedName(term).name),
+	];
+}
+
+/**
+ * Compare a committed skills.json with a freshly generated one, ignoring the timestamp.
+ * Returns a readable line per drifted field (empty when up to date); skills are only
+ * compared when `compareSkills` is set, i.e. when the fresh run searched for skills.
+ */
+export function diffSkillsJson(
+	existing: SkillsJson,
+	next: SkillsJson,
+	compareSkills = true,
+): string[] {
+	const ignored = ["timestamp", "recommended", ...(compareSkills ? [] : ["stale"])];
+	const before = flattenFields(asRecord(existing.detected), ignored);
+	const after = flattenFields(asRecord(next.detected), ignored);
+	if (compareSkills) {
+		before.set("skills", skillRefs(existing.skills));
+		after.set("skills", skillRefs(next.skills));
+	}
+
+	const lines: string[] = [];
+	for (const field of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+		const was = before.get(field);
+		const now = after.get(field);
+		if (JSON.stringify(was) === JSON.stringify(now)) continue;
+
+		if ((Array.isArray(was) || was === undefined) && (Array.isArray(now) || now === undefined)) {
+			const wasItems = (was ?? []).map(String);
+			const nowItems = (now ?? []).map(String);
+			const changes = [
+				...nowItems.filter((item) => !wasItems.includes(item)).map((item) => `+${item}`),
+				...wasItems.filter((item) => !nowItems.includes(item)).map((item) => `-${item}`),
+			];
+			lines.push(`${field}: ${changes.length > 0 ? changes.join(" ") : "reordered"}`);
+		} else {
+			lines.push(`${field}: ${formatValue(was)} -> ${formatValue(now)}`);
+		}
+	}
+	return lines;
+}
+
+/**
+ * Flatten nested objects into dotted field paths; arrays and primitives are leaves
+ */
+function flattenFields(
+	value: Record<string, unknown>,
+	ignored: string[],
+	prefix = "",
+	fields = new Map<string, unknown>(),
+): Map<string, unknown> {
+	for (const [key, child] of Object.entries(value)) {
+		if (!prefix && ignored.includes(key)) continue;
+		const path = `${prefix}${key}`;
+		if (asRecord(child) === child) {
+			flattenFields(child as Record<string, unknown>, ignored, `${path}.`, fields);
+		} else {
+			fields.set(path, child);
+		}
+	}
+	return fields;
+}
+
+function formatValue(value: unknown): string {
+	return value === undefined ? "(none)" : JSON.stringify(value);
+}
@@ -0,0 +1,133 @@
+import { readdirSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	createLocalProvider,
+	DEFAULT_CACHE_TTL,
+	type SkillSearchProvider,
+	withSearchCache,
+} from "../src/providers/index.js";
+import { recommend } from "../src/recommend.js";
+import type { DetectionResult } from "../src/types.js";
+import { createProject } from "./helpers.js";
+
+function countingProvider(name = "test"): SkillSearchProvider & { queries: string[] } {
+	const queries: string[] = [];
+	return {
+		name,
+		queries,
+		async search(query) {
+			queries.push(query);
+			return [{ ref: `a/b@${query}`, source: "a/b", skill: query }];
+		},
+	};
+}
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe("withSearchCache", () => {
+	it("reuses results until they expire", async () => {
+		vi.useFakeTimers({ toFake: ["Date"] });
+		const dir = createProject({});
+		const provider = countingProvider();
+		const cached = withSearchCache(provider, { dir });
+
+		expect(await cached.search("react")).toEqual([
+			{ ref: "a/b@react", source: "a/b", skill: "react" },
+		]);
+		vi.advanceTimersByTime(DEFAULT_CACHE_TTL - 1000);
+		await cached.search("react");
+		expect(provider.queries).toEqual(["react"]);
+
+		vi.advanceTimersByTime(2000);
+		await cached.search("react");
+		expect(provider.queries).toEqual(["react", "react"]);
+	});
+
+	it("keys results by provider and query, and honors ttl and refresh", async () => {
+		const dir = createProject({});
+		const first = countingProvider("first");
+		const second = countingProvider("second");
+
+		await withSearchCache(first, { dir }).search("react");
+		await withSearchCache(first, { dir }).search("vue");
+		await withSearchCache(second, { dir }).search("react");
+		expect(readdirSync(dir)).toHaveLength(3);
+
+		await withSearchCache(first, { dir }).search("react");
+		await withSearchCache(first, { dir, ttl: 0 }).search("react");
+		await withSearchCache(first, { dir, refresh: true }).search("react");
+		expect(first.queries).toEqual(["react", "vue", "react", "react"]);
+	});
+
+	it("doesn't cache failed searches", async () => {
+		const dir = createProject({});
+		let calls = 0;
+		const cached = withSearchCache(
+			{
+				name: "flaky",
+				async search() {
+					calls++;
+					throw new Error("offline");
+				},
+			},
+			{ dir },
+		);
+
+		await expect(cached.search("react")).rejects.toThrow("offline");
+		await expect(cached.search("react")).rejects.toThrow("offline");
+		expect(calls).toBe(2);
+		expect(readdirSync(dir)).toEqual([]);
+	});
+
+	it("leaves local indexes uncached", () => {
+		const provider = createLocalProvider({ index: "skills.json" });
+
+		expect(withSearchCache(provider, { dir: createProject({}) })).toBe(provider);
+	});
+});
+
+describe("recommend", () => {
+	it("runs searches concurrently, up to the limit", async () => {
+		let running = 0;
+		let maxRunning = 0;
+		const detection = {
+			packageManager: null,
+			frameworks: [],
+			languages: [],
+			tools: ["alpha", "beta", "gamma", "delta", "epsilon"],
+			testing: [],
+			searchTerms: ["alpha", "beta", "gamma", "delta", "epsilon"],
+			details: [],
+			versions: {},
+		} as unknown as DetectionResult;
+
+		const result = await recommend(detection, {
+			config: false,
+			cache: false,
+			concurrency: 2,
+			provider: {
+				name: "slow",
+				async search(query) {
+					running++;
+					maxRunning = Math.max(maxRunning, running);
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					running--;
+					if (query === "gamma") throw new Error("timeout");
+					return [{ ref: `a/b@${query}`, source: "a/b", skill: query }];
+				},
+			},
+		});
+
+		expect(maxRunning).toBe(2);
+		expect(result.searchedTerms).toEqual(["alpha", "beta", "gamma", "delta", "epsilon"]);
+		expect(result.failedSearches).toEqual({ gamma: "timeout" });
+		expect(result.recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"a/b@alpha",
+			"a/b@beta",
+			"a/b@delta",
+			"a/b@epsilon",
+		]);
+	});
+});
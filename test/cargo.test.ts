@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { loadCrates, normalizeCrateName } from "../src/manifests/cargo.js";
+import { createProject } from "./helpers.js";
+
+describe("loadCrates", () => {
+	it("reads dependency, dev, build and target tables", () => {
+		const cwd = createProject({
+			"Cargo.toml": `[package]
+name = "app"
+
+[dependencies]
+tokio = { version = "1.36", features = ["full"] }
+serde_json = "1"
+http-client = { package = "reqwest", version = "0.12" }
+
+[dev-dependencies]
+criterion = "0.5"
+
+[build-dependencies]
+cc = "1.0"
+
+[target.'cfg(unix)'.dependencies]
+nix = "0.28"
+`,
+		});
+
+		expect(loadCrates(cwd)).toEqual({
+			tokio: "1.36",
+			"serde-json": "1",
+			reqwest: "0.12",
+			criterion: "0.5",
+			cc: "1.0",
+			nix: "0.28",
+		});
+	});
+
+	it("reads workspace members with inherited versions", () => {
+		const cwd = createProject({
+			"Cargo.toml": `[workspace]
+members = ["crates/*"]
+exclude = ["crates/experimental"]
+
+[workspace.dependencies]
+axum = "0.7"
+sqlx = { version = "0.7", features = ["postgres"] }
+`,
+			"crates/api/Cargo.toml": `[package]
+name = "api"
+
+[dependencies]
+axum = { workspace = true }
+sqlx.workspace = true
+`,
+			"crates/cli/Cargo.toml": '[package]\nname = "cli"\n\n[dependencies]\nclap = "4"\n',
+			"crates/experimental/Cargo.toml": '[dependencies]\nbevy = "0.13"\n',
+			"crates/docs/README.md": "Not a crate",
+		});
+
+		expect(loadCrates(cwd)).toEqual({ axum: "0.7", sqlx: "0.7", clap: "4" });
+	});
+
+	it("returns nothing without a Cargo.toml", () => {
+		expect(loadCrates(createProject({}))).toEqual({});
+	});
+});
+
+describe("normalizeCrateName", () => {
+	it("treats hyphens and underscores alike", () => {
+		expect(normalizeCrateName("Serde_JSON")).toBe("serde-json");
+	});
+});
@@ -0,0 +1,153 @@
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { BUILTIN_CATALOG } from "../src/catalog/builtin.js";
+import {
+	catalogFromMapping,
+	loadCatalog,
+	matchCatalog,
+	mergeCatalogs,
+	type SkillCatalog,
+} from "../src/catalog/index.js";
+import { createProject } from "./helpers.js";
+
+const detection = {
+	frameworks: ["nextjs", "react"],
+	languages: ["typescript"],
+	tools: ["prisma"],
+	testing: ["vitest"],
+	custom: { internal: ["acme"] },
+	versions: { nextjs: "14", react: "18" },
+};
+
+describe("mergeCatalogs", () => {
+	it("replaces entries by id and removes entries without skills", () => {
+		const base: SkillCatalog = {
+			version: 1,
+			entries: [
+				{ id: "nextjs", skills: ["a/next@old"], when: { any: { frameworks: ["nextjs"] } } },
+				{ id: "prisma", skills: ["a/prisma@orm"], when: { any: { tools: ["prisma"] } } },
+			],
+		};
+		const project: SkillCatalog = {
+			version: 1,
+			entries: [
+				{ id: "prisma", skills: [] },
+				{ id: "nextjs", skills: ["b/next@new"], when: { any: { frameworks: ["nextjs"] } } },
+			],
+		};
+
+		expect(mergeCatalogs(base, project).entries).toEqual([
+			{ id: "nextjs", skills: ["b/next@new"], when: { any: { frameworks: ["nextjs"] } } },
+		]);
+	});
+});
+
+describe("matchCatalog", () => {
+	it("matches any/all conditions, version ranges and custom categories", () => {
+		const catalog: SkillCatalog = {
+			version: 1,
+			entries: [
+				{ id: "next15", skills: ["a/next@15"], when: { any: { frameworks: ["nextjs@>=15"] } } },
+				{ id: "next14", skills: ["a/next@14"], when: { any: { frameworks: ["nextjs@14"] } } },
+				{
+					id: "fullstack",
+					skills: ["a/stack@fullstack"],
+					when: { all: { frameworks: ["nextjs"], tools: ["prisma"] } },
+				},
+				{
+					id: "drizzle",
+					skills: ["a/stack@drizzle"],
+					when: { all: { frameworks: ["nextjs"], tools: ["drizzle"] } },
+				},
+				{ id: "acme", skills: ["acme/skills@ui"], when: { any: { internal: ["acme"] } } },
+			],
+		};
+
+		expect(matchCatalog(catalog, detection).map((match) => match.skill)).toEqual([
+			"a/next@14",
+			"a/stack@fullstack",
+			"acme/skills@ui",
+		]);
+	});
+
+	it("orders by priority and merges skills recommended by several entries", () => {
+		const catalog: SkillCatalog = {
+			version: 1,
+			entries: [
+				{ id: "vitest", skills: ["a/testing@unit"], when: { any: { testing: ["vitest"] } } },
+				{
+					id: "react",
+					skills: ["a/react@perf", "a/testing@unit"],
+					when: { any: { frameworks: ["react"] } },
+					priority: 50,
+					rationale: "React skills",
+					keepSearching: true,
+				},
+			],
+		};
+
+		expect(matchCatalog(catalog, detection)).toEqual([
+			{
+				skill: "a/testing@unit",
+				entry: "vitest",
+				priority: 50,
+				matched: ["vitest", "react"],
+				keepSearching: false,
+			},
+			{
+				skill: "a/react@perf",
+				entry: "react",
+				priority: 50,
+				rationale: "React skills",
+				matched: ["react"],
+				keepSearching: true,
+			},
+		]);
+	});
+});
+
+describe("BUILTIN_CATALOG", () => {
+	it("only adds generic skills next to search results", () => {
+		const matches = matchCatalog(BUILTIN_CATALOG, {
+			...detection,
+			frameworks: ["vue"],
+			testing: ["playwright"],
+			versions: {},
+		});
+
+		expect(matches.map((match) => [match.skill, match.keepSearching])).toEqual([
+			["anthropics/skills@webapp-testing", true],
+			["vercel-labs/web-design-guidelines@web-design-guidelines", true],
+		]);
+	});
+});
+
+describe("catalogFromMapping", () => {
+	it("matches keys against frameworks and tools", () => {
+		const catalog = catalogFromMapping({ "nextjs@>=15": ["a/next@15"], prisma: ["a/prisma@orm"] });
+
+		expect(matchCatalog(catalog, detection).map((match) => match.skill)).toEqual(["a/prisma@orm"]);
+	});
+});
+
+describe("loadCatalog", () => {
+	it("loads and validates catalog files", () => {
+		const cwd = createProject({});
+		const write = (file: string, catalog: unknown) =>
+			writeFileSync(join(cwd, file), JSON.stringify(catalog));
+
+		write("ok.json", { version: 1, entries: [{ id: "old", skills: [] }] });
+		expect(loadCatalog("ok.json", cwd).entries).toEqual([{ id: "old", skills: [] }]);
+
+		write("version.json", { version: 2, entries: [] });
+		expect(() => loadCatalog("version.json", cwd)).toThrow("unsupported version 2");
+
+		write("when.json", { version: 1, entries: [{ id: "x", skills: ["a/b@c"] }] });
+		expect(() => loadCatalog("when.json", cwd)).toThrow(
+			'Invalid catalog when.json: entry "x" "when" must have "any" and/or "all"',
+		);
+
+		expect(() => loadCatalog("missing.json", cwd)).toThrow("Could not read catalog missing.json");
+	});
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { detect } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+describe("CI detection", () => {
+	it("detects providers and notable steps of GitHub Actions workflows", async () => {
+		const cwd = createProject({
+			".github/workflows/test.yml": [
+				"on: [pull_request]",
+				"jobs:",
+				"  test:",
+				"    strategy:",
+				"      matrix:",
+				"        node: [20, 22]",
+				"    steps:",
+				"      - run: npx vercel deploy --prebuilt",
+				"",
+			].join("\n"),
+			".github/workflows/release.yaml": [
+				"on:",
+				"  push:",
+				"    branches: [main]",
+				"jobs:",
+				"  release:",
+				"    steps:",
+				"      - uses: changesets/action@v1",
+				"      - uses: docker/build-push-action@v6",
+				"",
+			].join("\n"),
+		});
+
+		const result = await detect({ cwd, config: false });
+
+		expect(result.ci).toEqual([
+			"github-actions",
+			"preview-deploys",
+			"matrix-testing",
+			"release-automation",
+			"docker-build",
+		]);
+		expect(result.details.find((item) => item.name === "release-automation")?.evidence).toEqual([
+			{ kind: "configFile", source: ".github/workflows/release.yaml", detail: "changesets/action" },
+		]);
+	});
+
+	it("only reports deploys of pull request pipelines as previews", async () => {
+		const cwd = createProject({
+			".gitlab-ci.yml": "deploy:\n  script:\n    - npx vercel deploy --prod\n",
+		});
+
+		expect((await detect({ cwd, config: false })).ci).toEqual(["gitlab-ci"]);
+	});
+
+	it("matches Jenkinsfiles as text", async () => {
+		const cwd = createProject({
+			Jenkinsfile:
+				"pipeline {\n  stages {\n    stage('Image') { steps { sh 'docker build .' } }\n  }\n}\n",
+		});
+
+		expect((await detect({ cwd, config: false })).ci).toEqual(["jenkins", "docker-build"]);
+	});
+
+	it("ignores pipeline steps without a CI provider", async () => {
+		const cwd = createProject({ "release.yml": "steps:\n  - run: npx semantic-release\n" });
+
+		expect((await detect({ cwd, config: false })).ci).toEqual([]);
+	});
+});
@@ -0,0 +1,77 @@
+import { spawnSync } from "node:child_process";
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it, vi } from "vitest";
+import { createProject } from "./helpers.js";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+
+// Each run starts a new process, which can take a few seconds
+vi.setConfig({ testTimeout: 30000 });
+
+/**
+ * Run the CLI from source in the given directory
+ */
+function run(args: string[], cwd = createProject({})) {
+	const result = spawnSync(
+		process.execPath,
+		[join(root, "node_modules/vite-node/vite-node.mjs"), join(root, "src/cli.ts"), "--", ...args],
+		{ cwd, encoding: "utf8", env: { ...process.env, NO_COLOR: "1" }, timeout: 30000 },
+	);
+	return { code: result.status, stdout: result.stdout, stderr: result.stderr };
+}
+
+describe("cli", () => {
+	it.each([
+		[["--bogus"], "Unknown option '--bogus'"],
+		[["detect", "-C"], "Option '-C, --cwd <value>' argument missing"],
+		[["deploy"], 'Unknown command "deploy"'],
+		[["detect", "extra"], 'Unexpected argument "extra"'],
+		[["detect", "--merge"], "Option --merge is not supported by the detect command"],
+		[["write", "--merge", "--overwrite"], "--merge and --overwrite can't be used together"],
+		[["detect", "--min-confidence", "2"], "--min-confidence must be a number between 0 and 1"],
+		[["recommend", "--limit", "0"], "--limit must be a positive integer"],
+		[["write", "--format", "yaml"], 'Unknown format "yaml"'],
+		[["check", "-o", "-"], "--output can't be - (stdout)"],
+	])("rejects %j as invalid arguments", (args, message) => {
+		const { code, stderr } = run(args);
+
+		expect(code).toBe(2);
+		expect(stderr).toContain(message);
+		expect(stderr).toContain("Run skills-detector --help for usage");
+	});
+
+	it("exits with 3 when nothing is detected", () => {
+		const { code, stdout } = run(["detect", "--json"]);
+
+		expect(code).toBe(3);
+		expect(JSON.parse(stdout)).toMatchObject({ searchTerms: [] });
+	});
+
+	it("exits with 4 when every search fails", () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ dependencies: { zod: "^3.0.0" } }),
+		});
+
+		const { code, stderr } = run(
+			["recommend", "--registry", "http://127.0.0.1:9", "--no-cache"],
+			cwd,
+		);
+
+		expect(code).toBe(4);
+		expect(stderr).toContain("skill search failed");
+	});
+
+	it("checks skills.json without searching", () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ dependencies: { zod: "^3.0.0" } }),
+		});
+
+		expect(run(["check", "--skip-search"], cwd).code).toBe(5);
+
+		expect(run(["write", "--skip-search", "--output", "skills.json"], cwd).code).toBe(0);
+		expect(existsSync(join(cwd, "skills.json"))).toBe(true);
+		expect(run(["check", "--skip-search"], cwd).code).toBe(0);
+	});
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { loadConfig } from "../src/config.js";
+import { detect } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+describe("loadConfig", () => {
+	it("loads skills-detector.config.json before package.json", async () => {
+		const cwd = createProject({
+			"skills-detector.config.json": JSON.stringify({ exclude: ["eslint"] }),
+			"package.json": JSON.stringify({ skillsDetector: { exclude: ["prettier"] } }),
+		});
+
+		expect(await loadConfig(cwd)).toEqual({
+			config: { exclude: ["eslint"] },
+			source: "skills-detector.config.json",
+		});
+	});
+
+	it("falls back to the skillsDetector key of package.json", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ skillsDetector: { searchTerms: ["graphql"] } }),
+		});
+
+		expect(await loadConfig(cwd)).toEqual({
+			config: { searchTerms: ["graphql"] },
+			source: "package.json",
+		});
+		expect(await loadConfig(createProject({ "package.json": "{}" }))).toBeUndefined();
+	});
+
+	it("imports JavaScript configs with custom detectors", async () => {
+		const cwd = createProject({
+			"skills-detector.config.mjs": `export default {
+	detectors: [{ name: "acme", category: "internal", configFiles: ["acme.json"] }],
+};
+`,
+		});
+
+		expect((await loadConfig(cwd))?.config.detectors).toEqual([
+			{ name: "acme", category: "internal", configFiles: ["acme.json"] },
+		]);
+	});
+
+	it("rejects invalid configs", async () => {
+		await expect(
+			loadConfig(createProject({ "skills-detector.config.json": '{ "exclude": "eslint" }' })),
+		).rejects.toThrow('Invalid config in skills-detector.config.json: "exclude" must be');
+		await expect(
+			loadConfig(createProject({ "skills-detector.config.json": "{ nope" })),
+		).rejects.toThrow("Could not parse skills-detector.config.json");
+	});
+});
+
+describe("detect", () => {
+	it("applies the project config", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({
+				dependencies: { react: "^19.0.0" },
+				devDependencies: { eslint: "^9.0.0" },
+				skillsDetector: {
+					include: { tools: ["docker"] },
+					exclude: ["eslint"],
+					searchTerms: ["design-system"],
+					detectors: [{ name: "acme", category: "internal", dependencies: ["react"] }],
+				},
+			}),
+		});
+
+		const result = await detect({ cwd });
+
+		expect(result.tools).toContain("docker");
+		expect(result.tools).not.toContain("eslint");
+		expect(result.custom).toEqual({ internal: ["acme"] });
+		expect(result.searchTerms).toEqual(expect.arrayContaining(["react", "design-system"]));
+		expect(result.searchTerms).not.toContain("eslint");
+
+		const ignored = await detect({ cwd, config: false });
+		expect(ignored.tools).toContain("eslint");
+	});
+});
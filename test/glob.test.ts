@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { globToRegex, isGlobPattern } from "../src/glob.js";
+import { detect } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+function matches(pattern: string, path: string): boolean {
+	return globToRegex(pattern).test(path);
+}
+
+describe("globToRegex", () => {
+	it("matches * within a single directory", () => {
+		expect(matches("*.ts", "index.ts")).toBe(true);
+		expect(matches("*.ts", "src/index.ts")).toBe(false);
+		expect(matches("src/*.ts", "src/index.ts")).toBe(true);
+		expect(matches("packages/*", "packages/ui")).toBe(true);
+	});
+
+	it("matches **/ across zero or more directories", () => {
+		expect(matches("**/*_test.go", "main_test.go")).toBe(true);
+		expect(matches("**/*_test.go", "pkg/api/handler_test.go")).toBe(true);
+		expect(matches("src/**/*.py", "src/app.py")).toBe(true);
+		expect(matches("src/**/*.py", "src/a/b/app.py")).toBe(true);
+		expect(matches("docs/**", "docs/guide/intro.md")).toBe(true);
+	});
+
+	it("never matches dotfiles with wildcards", () => {
+		expect(matches("*", ".env")).toBe(false);
+		expect(matches("**/*.yml", ".github/ci.yml")).toBe(false);
+		expect(matches(".github/workflows/*.yml", ".github/workflows/ci.yml")).toBe(true);
+	});
+
+	it("supports ? and character classes", () => {
+		expect(matches("file?.txt", "file1.txt")).toBe(true);
+		expect(matches("file?.txt", "file/.txt")).toBe(false);
+		expect(matches("v[0-9].md", "v2.md")).toBe(true);
+		expect(matches("v[!0-9].md", "v2.md")).toBe(false);
+		expect(matches("v[!0-9].md", "vx.md")).toBe(true);
+		expect(matches("a[b", "a[b")).toBe(true);
+	});
+
+	it("escapes regex characters", () => {
+		expect(matches("requirements.txt", "requirements.txt")).toBe(true);
+		expect(matches("requirements.txt", "requirementsAtxt")).toBe(false);
+		expect(matches("(group)/page+.tsx", "(group)/page+.tsx")).toBe(true);
+	});
+});
+
+describe("isGlobPattern", () => {
+	it("detects glob syntax", () => {
+		expect(isGlobPattern("requirements/*.txt")).toBe(true);
+		expect(isGlobPattern("file?.txt")).toBe(true);
+		expect(isGlobPattern("[ab].txt")).toBe(true);
+		expect(isGlobPattern("package.json")).toBe(false);
+	});
+});
+
+describe("detector file patterns", () => {
+	it("only searches for Go tests in Go modules", async () => {
+		const module = createProject({
+			"go.mod": "module example.com/app\n\ngo 1.22\n",
+			"internal/api/handler_test.go": "package api\n",
+		});
+		const scripts = createProject({ "scripts/tools/check_test.go": "package tools\n" });
+
+		expect((await detect({ cwd: module, config: false })).testing).toEqual(["go-test"]);
+		expect((await detect({ cwd: scripts, config: false })).testing).toEqual([]);
+	});
+
+	it("finds .NET projects at the top levels or through a solution", async () => {
+		const shallow = createProject({ "src/App.csproj": "<Project />\n" });
+		const nested = createProject({ "src/App/App.csproj": "<Project />\n" });
+		const solution = createProject({
+			"App.sln": "",
+			"src/App/App.fsproj": "<Project />\n",
+		});
+
+		expect((await detect({ cwd: shallow, config: false })).languages).toEqual(["csharp"]);
+		expect((await detect({ cwd: nested, config: false })).languages).toEqual([]);
+		expect((await detect({ cwd: solution, config: false })).languages).toEqual([
+			"csharp",
+			"fsharp",
+		]);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { loadGoModules, matchesGoModule, parseGoMod } from "../src/manifests/go.js";
+import { createProject } from "./helpers.js";
+
+const GO_MOD = `module example.com/app // the app
+
+go 1.22
+
+require github.com/spf13/cobra v1.8.0
+
+require (
+	github.com/gin-gonic/gin v1.9.1
+	"github.com/labstack/echo/v4" v4.11.4
+	golang.org/x/sys v0.20.0 // indirect
+	github.com/stretchr/testify v1.9.0 // indirect; test only
+)
+
+replace github.com/gin-gonic/gin => github.com/fork/gin v1.9.2
+
+replace (
+	github.com/spf13/cobra v1.7.0 => ../cobra
+	github.com/labstack/echo/v4 => ../echo
+)
+`;
+
+describe("parseGoMod", () => {
+	it("parses single-line and block directives", () => {
+		const goMod = parseGoMod(GO_MOD);
+
+		expect(goMod.module).toBe("example.com/app");
+		expect(goMod.go).toBe("1.22");
+		expect(goMod.require).toEqual([
+			{ path: "github.com/spf13/cobra", version: "v1.8.0", indirect: false },
+			{ path: "github.com/gin-gonic/gin", version: "v1.9.1", indirect: false },
+			{ path: "github.com/labstack/echo/v4", version: "v4.11.4", indirect: false },
+			{ path: "golang.org/x/sys", version: "v0.20.0", indirect: true },
+			{ path: "github.com/stretchr/testify", version: "v1.9.0", indirect: true },
+		]);
+		expect(goMod.replace).toEqual([
+			{
+				path: "github.com/gin-gonic/gin",
+				version: undefined,
+				newPath: "github.com/fork/gin",
+				newVersion: "v1.9.2",
+			},
+			{
+				path: "github.com/spf13/cobra",
+				version: "v1.7.0",
+				newPath: "../cobra",
+				newVersion: undefined,
+			},
+			{
+				path: "github.com/labstack/echo/v4",
+				version: undefined,
+				newPath: "../echo",
+				newVersion: undefined,
+			},
+		]);
+	});
+
+	it("ignores empty and unknown input", () => {
+		expect(parseGoMod("")).toEqual({ require: [], replace: [] });
+		expect(parseGoMod("toolchain go1.22.1\nrequire (\n)\n")).toEqual({ require: [], replace: [] });
+	});
+});
+
+describe("loadGoModules", () => {
+	it("returns direct requirements with replace directives applied", () => {
+		const cwd = createProject({ "go.mod": GO_MOD });
+
+		expect(loadGoModules(cwd)).toEqual({
+			// Only replaced at another version
+			"github.com/spf13/cobra": "v1.8.0",
+			"github.com/gin-gonic/gin": "v1.9.2",
+			// Replaced with a local directory, which has no version
+			"github.com/labstack/echo/v4": "",
+		});
+	});
+});
+
+describe("matchesGoModule", () => {
+	it("ignores major version suffixes and matches sub-modules", () => {
+		expect(matchesGoModule("github.com/labstack/echo/v4", "github.com/labstack/echo")).toBe(true);
+		expect(matchesGoModule("github.com/jackc/pgx/v5/pgxpool", "github.com/jackc/pgx")).toBe(true);
+		expect(matchesGoModule("github.com/labstack/echo-contrib", "github.com/labstack/echo")).toBe(
+			false,
+		);
+	});
+});
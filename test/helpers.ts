@@ -0,0 +1,19 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { onTestFinished } from "vitest";
+
+/**
+ * Create a temporary project from file contents keyed by relative path,
+ * removed when the current test finishes
+ */
+export function createProject(files: Record<string, string>): string {
+	const cwd = mkdtempSync(join(tmpdir(), "skills-detector-"));
+	onTestFinished(() => rmSync(cwd, { recursive: true, force: true }));
+
+	for (const [file, content] of Object.entries(files)) {
+		mkdirSync(dirname(join(cwd, file)), { recursive: true });
+		writeFileSync(join(cwd, file), content);
+	}
+	return cwd;
+}
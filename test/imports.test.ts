@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { countImports, extractImports, scanImports } from "../src/detectors/imports.js";
+import { detect } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+describe("extractImports", () => {
+	it("extracts package names from JavaScript and TypeScript", () => {
+		const source = [
+			'import React from "react";',
+			'import { z } from "zod/v4";',
+			'import type { Config } from "@scope/pkg/sub";',
+			'import "./styles.css";',
+			'export * from "../shared";',
+			'import fs from "node:fs";',
+			'const lodash = require("lodash");',
+			'const page = await import("next/dynamic");',
+			'import alias from "#internal";',
+		].join("\n");
+
+		expect(extractImports("src/app.tsx", source)).toEqual([
+			"react",
+			"zod",
+			"@scope/pkg",
+			"lodash",
+			"next",
+		]);
+	});
+
+	it("extracts Python, Go and Rust modules", () => {
+		expect(
+			extractImports("app.py", "import os, flask as f\nfrom fastapi.routing import APIRouter\n"),
+		).toEqual(["os", "flask", "fastapi"]);
+		expect(
+			extractImports(
+				"main.go",
+				'import "fmt"\nimport (\n\t"net/http"\n\tgin "github.com/gin-gonic/gin"\n)\n',
+			),
+		).toEqual(["github.com/gin-gonic/gin"]);
+		expect(
+			extractImports(
+				"main.rs",
+				"use std::io;\nuse tokio::runtime;\npub use crate::x;\nextern crate serde;\n",
+			),
+		).toEqual(["tokio", "serde"]);
+		expect(extractImports("README.md", 'import "react"')).toEqual([]);
+	});
+});
+
+describe("scanImports", () => {
+	it("counts the files importing each module", () => {
+		const cwd = createProject({
+			"src/a.ts": 'import { z } from "zod";\nimport React from "react";\n',
+			"src/b.ts": 'import { z } from "zod";\n',
+			"dist/bundle.js": 'require("ignored")',
+			".gitignore": "dist/\n",
+		});
+
+		const scan = scanImports(cwd);
+
+		expect(scan).toEqual({ modules: { zod: 2, react: 1 }, files: 2, truncated: false });
+		expect(scanImports(cwd, { maxFiles: 1 })).toMatchObject({ files: 1, truncated: true });
+	});
+
+	it("matches Go packages and Python names with hyphens", () => {
+		const scan = {
+			modules: { "github.com/gin-gonic/gin/binding": 2, python_dotenv: 1 },
+			files: 3,
+			truncated: false,
+		};
+
+		expect(countImports(scan, "github.com/gin-gonic/gin")).toBe(2);
+		expect(countImports(scan, "python-dotenv")).toBe(1);
+		expect(countImports(scan, "flask")).toBe(0);
+	});
+});
+
+describe("detect", () => {
+	it("records how often detected dependencies are imported", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({
+				dependencies: { next: "15.0.0", react: "19.0.0", axios: "^1.7.0" },
+			}),
+			"app/page.tsx": 'import Link from "next/link";\n',
+			"app/layout.tsx": 'import type { Metadata } from "next";\nimport React from "react";\n',
+		});
+
+		const result = await detect({ cwd, config: false, scanImports: true });
+
+		expect(result.imports).toEqual({ axios: 0, nextjs: 2, react: 1 });
+		const next = result.details.find((item) => item.name === "nextjs");
+		expect(next?.evidence).toContainEqual({
+			kind: "imports",
+			source: "source files",
+			dependency: "next",
+			detail: "imported in 2 of 2 files",
+		});
+		const axios = result.details.find((item) => item.name === "axios");
+		expect(axios?.evidence).toContainEqual({
+			kind: "unimported",
+			source: "source files",
+			dependency: "axios",
+			detail: "not imported in 2 files",
+		});
+	});
+
+	it("lowers the confidence of unused dependencies and leaves them out of search terms", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ dependencies: { next: "15.0.0", axios: "^1.7.0" } }),
+			"app/page.tsx": 'import Link from "next/link";\n',
+		});
+
+		const result = await detect({ cwd, config: false, scanImports: true });
+
+		expect(result.tools).toEqual(["axios"]);
+		expect(result.searchTerms).toContain("nextjs");
+		expect(result.searchTerms).not.toContain("axios");
+		expect(result.details.find((item) => item.name === "axios")?.confidence).toBe(0.45);
+		expect(result.details.find((item) => item.name === "nextjs")?.confidence).toBe(1);
+
+		const confident = await detect({ cwd, config: false, scanImports: true, minConfidence: 0.5 });
+		expect(confident.tools).toEqual([]);
+	});
+
+	it("keeps unused dependencies when the scan stopped early", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ dependencies: { next: "15.0.0", axios: "^1.7.0" } }),
+			"app/layout.tsx": 'import type { Metadata } from "next";\n',
+			"app/page.tsx": 'import Link from "next/link";\n',
+		});
+
+		const result = await detect({ cwd, config: false, scanImports: { maxFiles: 1 } });
+
+		expect(result.searchTerms).toContain("axios");
+		expect(result.details.find((item) => item.name === "axios")).toMatchObject({
+			confidence: 0.9,
+			evidence: [{ kind: "dependency", dependency: "axios" }],
+		});
+	});
+
+	it("doesn't scan sources by default", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ dependencies: { axios: "^1.7.0" } }),
+		});
+
+		const result = await detect({ cwd, config: false });
+
+		expect(result.imports).toBeUndefined();
+		expect(result.tools).toContain("axios");
+	});
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { loadLockfile } from "../src/manifests/lockfile.js";
+import { createProject } from "./helpers.js";
+
+describe("package-lock.json", () => {
+	it("reads hoisted, nested and transitive packages (v2/v3)", () => {
+		const cwd = createProject({
+			"package-lock.json": JSON.stringify({
+				lockfileVersion: 3,
+				packages: {
+					"": { name: "root" },
+					"node_modules/next": { version: "15.1.0" },
+					"node_modules/@tanstack/react-query": { version: "5.62.0" },
+					"node_modules/foo/node_modules/react": { version: "18.2.0" },
+					"node_modules/react": { version: "19.0.0" },
+					"apps/web/node_modules/next": { version: "14.2.3" },
+				},
+			}),
+		});
+
+		expect(loadLockfile(cwd, "npm")).toEqual({
+			file: "package-lock.json",
+			versions: {
+				next: "15.1.0",
+				"@tanstack/react-query": "5.62.0",
+				react: "19.0.0",
+			},
+		});
+		expect(loadLockfile(cwd, "npm", "apps/web")?.versions.next).toBe("14.2.3");
+	});
+
+	it("reads v1 dependencies", () => {
+		const cwd = createProject({
+			"package-lock.json": JSON.stringify({
+				lockfileVersion: 1,
+				dependencies: { express: { version: "4.18.2" } },
+			}),
+		});
+
+		expect(loadLockfile(cwd, "npm")?.versions).toEqual({ express: "4.18.2" });
+	});
+});
+
+describe("pnpm-lock.yaml", () => {
+	it("reads v9 packages and importers, without peer suffixes", () => {
+		const cwd = createProject({
+			"pnpm-lock.yaml": [
+				"lockfileVersion: '9.0'",
+				"importers:",
+				"  .:",
+				"    dependencies:",
+				"      next:",
+				"        specifier: ^15.0.0",
+				"        version: 15.1.0(react@19.0.0)",
+				"  apps/web:",
+				"    dependencies:",
+				"      next:",
+				"        specifier: ^14.0.0",
+				"        version: 14.2.3(react@18.3.1)",
+				"      ui:",
+				"        specifier: workspace:*",
+				"        version: link:../../packages/ui",
+				"packages:",
+				"  next@15.1.0:",
+				"    resolution: {integrity: sha512-a}",
+				"  next@14.2.3:",
+				"    resolution: {integrity: sha512-b}",
+				"  '@types/react@19.0.1':",
+				"    resolution: {integrity: sha512-c}",
+				"",
+			].join("\n"),
+		});
+
+		expect(loadLockfile(cwd, "pnpm")?.versions).toEqual({
+			next: "15.1.0",
+			"@types/react": "19.0.1",
+		});
+		const web = loadLockfile(cwd, "pnpm", "apps/web")?.versions;
+		expect(web?.next).toBe("14.2.3");
+		expect(web).not.toHaveProperty("ui");
+	});
+
+	it("reads v6 and v5 package keys", () => {
+		const cwd = createProject({
+			"pnpm-lock.yaml": [
+				"lockfileVersion: 5.4",
+				"packages:",
+				"  /react-dom/18.2.0_react@18.2.0:",
+				"    resolution: {integrity: sha512-a}",
+				"  /@babel/core/7.24.0:",
+				"    resolution: {integrity: sha512-b}",
+				"  /vitest@1.6.0(@types/node@20.0.0):",
+				"    resolution: {integrity: sha512-c}",
+				"",
+			].join("\n"),
+		});
+
+		expect(loadLockfile(cwd, "pnpm")?.versions).toEqual({
+			"react-dom": "18.2.0",
+			"@babel/core": "7.24.0",
+			vitest: "1.6.0",
+		});
+	});
+});
+
+describe("yarn.lock", () => {
+	it("reads classic entries and resolves declared ranges", () => {
+		const cwd = createProject({
+			"yarn.lock": [
+				"# yarn lockfile v1",
+				"",
+				'"@babel/core@^7.0.0", "@babel/core@^7.20.0":',
+				'  version "7.24.0"',
+				"",
+				"react@^17.0.0:",
+				'  version "17.0.2"',
+				"",
+				"react@^18.0.0:",
+				'  version "18.3.1"',
+				"",
+			].join("\n"),
+		});
+
+		expect(loadLockfile(cwd, "yarn")?.versions).toEqual({
+			"@babel/core": "7.24.0",
+			react: "17.0.2",
+		});
+		expect(loadLockfile(cwd, "yarn", "", { react: "^18.0.0" })?.versions.react).toBe("18.3.1");
+	});
+
+	it("reads berry entries with npm: descriptors and skips __metadata", () => {
+		const cwd = createProject({
+			"yarn.lock": [
+				"__metadata:",
+				"  version: 8",
+				"",
+				'"next@npm:^15.0.0":',
+				"  version: 15.1.0",
+				"  resolution: next@npm:15.1.0",
+				"",
+			].join("\n"),
+		});
+
+		const versions = loadLockfile(cwd, "yarn", "", { next: "^15.0.0" })?.versions;
+		expect(versions).toEqual({ next: "15.1.0" });
+	});
+});
+
+describe("bun.lock", () => {
+	it("parses JSON with trailing commas and resolves workspace packages", () => {
+		const cwd = createProject({
+			"bun.lock": `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": { "name": "root", },
+    "apps/web": { "name": "web", },
+  },
+  "packages": {
+    "next": ["next@15.1.0", "", {}, "sha512-a"],
+    "web/next": ["next@14.2.3", "", {}, "sha512-b"],
+    "next/postcss": ["postcss@8.4.31", "", {}, "sha512-c"],
+    "ui": ["ui@workspace:packages/ui"],
+  },
+}`,
+		});
+
+		expect(loadLockfile(cwd, "bun")?.versions).toEqual({ next: "15.1.0", postcss: "8.4.31" });
+		expect(loadLockfile(cwd, "bun", "apps/web")?.versions.next).toBe("14.2.3");
+	});
+});
+
+describe("loadLockfile", () => {
+	it("prefers the detected package manager's lockfile", () => {
+		const cwd = createProject({
+			"package-lock.json": JSON.stringify({ packages: { "node_modules/a": { version: "1.0.0" } } }),
+			"yarn.lock": 'a@^2.0.0:\n  version "2.0.0"\n',
+		});
+
+		expect(loadLockfile(cwd, "yarn")?.file).toBe("yarn.lock");
+		expect(loadLockfile(cwd, null)?.file).toBe("package-lock.json");
+	});
+
+	it("skips unparseable lockfiles", () => {
+		const cwd = createProject({
+			"package-lock.json": "{ not json",
+			"yarn.lock": 'a@^2.0.0:\n  version "2.0.0"\n',
+		});
+
+		expect(loadLockfile(cwd, "npm")).toEqual({ file: "yarn.lock", versions: { a: "2.0.0" } });
+		expect(loadLockfile(createProject({}), "npm")).toBeUndefined();
+	});
+});
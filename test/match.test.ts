@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { scoreEvidence } from "../src/detectors/match.js";
+import { detect } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+describe("scoreEvidence", () => {
+	it("scores a single piece of evidence by its weight", () => {
+		expect(scoreEvidence([{ kind: "dependency", source: "package.json" }])).toBe(0.9);
+		expect(scoreEvidence([{ kind: "file", source: "mix.exs" }])).toBe(0.6);
+	});
+
+	it("treats pieces of evidence as independent", () => {
+		expect(
+			scoreEvidence([
+				{ kind: "dependency", source: "package.json" },
+				{ kind: "configFile", source: "vitest.config.ts" },
+			]),
+		).toBe(0.98);
+		expect(
+			scoreEvidence([
+				{ kind: "file", source: "mix.exs" },
+				{ kind: "file", source: "mix.lock" },
+			]),
+		).toBe(0.84);
+	});
+
+	it("scales the score down for evidence against the item", () => {
+		expect(
+			scoreEvidence([
+				{ kind: "dependency", source: "package.json" },
+				{ kind: "unimported", source: "source files" },
+			]),
+		).toBe(0.45);
+	});
+
+	it("scores no evidence as zero", () => {
+		expect(scoreEvidence([])).toBe(0);
+	});
+});
+
+describe("detect", () => {
+	it("reports the evidence behind each detection", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ devDependencies: { vitest: "^2.1.0" } }),
+			"vitest.config.ts": "export default {}",
+			"mix.exs": "",
+		});
+
+		const { details } = await detect({ cwd });
+
+		expect(details.find((item) => item.name === "vitest")).toMatchObject({
+			category: "testing",
+			confidence: 0.98,
+			evidence: [
+				{ kind: "configFile", source: "vitest.config.ts" },
+				{ kind: "dependency", source: "package.json", dependency: "vitest", version: "^2.1.0" },
+			],
+		});
+		expect(details.find((item) => item.name === "elixir")).toMatchObject({
+			category: "languages",
+			confidence: 0.6,
+			evidence: [{ kind: "file", source: "mix.exs" }],
+		});
+	});
+
+	it("drops detections below the minimum confidence", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ devDependencies: { vitest: "^2.1.0" } }),
+			"mix.exs": "",
+		});
+
+		const result = await detect({ cwd, minConfidence: 0.7 });
+
+		expect(result.testing).toEqual(["vitest"]);
+		expect(result.languages).not.toContain("elixir");
+		expect(result.details.map((item) => item.name)).not.toContain("elixir");
+	});
+});
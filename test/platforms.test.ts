@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { detect } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+describe("platform detection", () => {
+	it("detects platforms from config files and adapters", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({
+				dependencies: { "@sveltejs/adapter-netlify": "^4.0.0", "@vercel/analytics": "^1.0.0" },
+			}),
+			"vercel.json": "{}",
+			"fly.toml": 'app = "web"\n',
+			"requirements.txt": "mangum==0.17.0\n",
+		});
+
+		const result = await detect({ cwd, config: false });
+
+		expect(result.platforms).toEqual(["vercel", "netlify", "aws-lambda", "fly-io"]);
+		expect(result.details.find((item) => item.name === "vercel")?.evidence).toEqual([
+			{ kind: "configFile", source: "vercel.json" },
+			{
+				kind: "dependency",
+				source: "package.json",
+				dependency: "@vercel/analytics",
+				version: "^1.0.0",
+			},
+		]);
+	});
+
+	it("detects Deno Deploy from the deploy section of deno.json", async () => {
+		expect(
+			(
+				await detect({
+					cwd: createProject({ "deno.json": '{ "deploy": { "project": "web" } }' }),
+					config: false,
+				})
+			).platforms,
+		).toEqual(["deno-deploy"]);
+		expect(
+			(await detect({ cwd: createProject({ "deno.json": '{ "tasks": {} }' }), config: false }))
+				.platforms,
+		).toEqual([]);
+	});
+
+	it("doesn't expect platform packages to be imported", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ devDependencies: { wrangler: "^3.0.0" } }),
+			"src/index.ts": "export default {};\n",
+		});
+
+		const result = await detect({ cwd, config: false, scanImports: true });
+
+		const workers = result.details.find((item) => item.name === "cloudflare-workers");
+		expect(workers?.evidence.map((evidence) => evidence.kind)).toEqual(["dependency"]);
+	});
+});
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+	createHttpProvider,
+	createLocalProvider,
+	normalizeSearchResults,
+} from "../src/providers/index.js";
+import { recommend } from "../src/recommend.js";
+import type { DetectionResult } from "../src/types.js";
+import { createProject } from "./helpers.js";
+
+describe("normalizeSearchResults", () => {
+	it("accepts refs, ids and source/name objects", () => {
+		expect(
+			normalizeSearchResults({
+				skills: [
+					"vercel-labs/agent-skills@react",
+					{ ref: "a/b@c", description: "C skill", installs: 120 },
+					{ id: "owner/repo/skill" },
+					{ source: "owner/repo", name: "named" },
+					{ source: "owner/repo", skill: "other" },
+					"not-a-ref",
+					{ id: "missing-repo@skill" },
+				],
+			}),
+		).toEqual([
+			{ ref: "vercel-labs/agent-skills@react", source: "vercel-labs/agent-skills", skill: "react" },
+			{ ref: "a/b@c", source: "a/b", skill: "c", description: "C skill", installs: 120 },
+			{ ref: "owner/repo@skill", source: "owner/repo", skill: "skill" },
+			{ ref: "owner/repo@named", source: "owner/repo", skill: "named" },
+			{ ref: "owner/repo@other", source: "owner/repo", skill: "other" },
+		]);
+		expect(normalizeSearchResults("nope")).toEqual([]);
+	});
+});
+
+describe("createHttpProvider", () => {
+	it("queries the registry search endpoint", async () => {
+		const urls: string[] = [];
+		const provider = createHttpProvider({
+			baseUrl: "https://registry.example/",
+			fetch: async (url) => {
+				urls.push(String(url));
+				return Response.json(["a/b@next-app"]);
+			},
+		});
+
+		expect(await provider.search("nextjs 15")).toEqual([
+			{ ref: "a/b@next-app", source: "a/b", skill: "next-app" },
+		]);
+		expect(urls).toEqual(["https://registry.example/api/search?q=nextjs%2015"]);
+	});
+
+	it("throws when the registry responds with an error", async () => {
+		const provider = createHttpProvider({
+			fetch: async () => new Response("", { status: 503, statusText: "Service Unavailable" }),
+		});
+
+		await expect(provider.search("react")).rejects.toThrow(
+			"Registry search failed: 503 Service Unavailable",
+		);
+	});
+});
+
+describe("createLocalProvider", () => {
+	it("searches a JSON index by query words, then names and installs", async () => {
+		const cwd = createProject({
+			"skills.index.json": JSON.stringify([
+				{ ref: "a/docs@guide", description: "Writing docs for prisma projects" },
+				{ ref: "a/db@prisma", installs: 10 },
+				{ ref: "b/db@prisma-migrations", description: "Prisma 5 migrations", installs: 500 },
+				{ ref: "c/web@react" },
+			]),
+		});
+		const provider = createLocalProvider({ index: "skills.index.json", cwd });
+
+		expect((await provider.search("prisma")).map((result) => result.ref)).toEqual([
+			"b/db@prisma-migrations",
+			"a/db@prisma",
+			"a/docs@guide",
+		]);
+		expect((await provider.search("prisma 5")).map((result) => result.ref)[0]).toBe(
+			"b/db@prisma-migrations",
+		);
+	});
+
+	it("reads a directory of SKILL.md files", async () => {
+		const cwd = createProject({
+			"skills/acme/tools/skills/deploy/SKILL.md":
+				"---\nname: deploy\ndescription: Deploy acme apps\n---\n# Deploy\n",
+			"skills/acme/tools/skills/lint/SKILL.md": "# No frontmatter\n",
+		});
+		const provider = createLocalProvider({ index: "skills", cwd });
+
+		expect(await provider.search("deploy")).toEqual([
+			{
+				ref: "acme/tools@deploy",
+				source: "acme/tools",
+				skill: "deploy",
+				description: "Deploy acme apps",
+			},
+		]);
+		expect((await provider.search("lint")).map((result) => result.ref)).toEqual([
+			"acme/tools@lint",
+		]);
+	});
+
+	it("fails searches when the index is missing", async () => {
+		const provider = createLocalProvider({ index: "missing.json", cwd: createProject({}) });
+
+		await expect(provider.search("react")).rejects.toThrow("Skill index not found");
+	});
+});
+
+describe("recommend", () => {
+	it("searches the provider for terms without curated skills", async () => {
+		const queries: string[] = [];
+		const detection = {
+			packageManager: "npm",
+			frameworks: ["acme-web"],
+			languages: ["typescript"],
+			tools: ["acme-db"],
+			testing: [],
+			searchTerms: ["acme-db", "acme-web", "typescript"],
+			details: [],
+			versions: {},
+		} as unknown as DetectionResult;
+
+		const result = await recommend(detection, {
+			config: { curated: { "acme-web": ["acme/skills@web"] } },
+			provider: {
+				name: "test",
+				async search(query) {
+					queries.push(query);
+					return normalizeSearchResults(["a/db@acme-db", "a/other@unrelated"]);
+				},
+			},
+			cache: false,
+		});
+
+		// Curated terms aren't searched, nor languages when frameworks are detected
+		expect(queries).toEqual(["acme-db"]);
+		expect(result.searchedTerms).toEqual(["acme-db"]);
+		expect(result.recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"acme/skills@web",
+			"a/db@acme-db",
+		]);
+	});
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { loadPythonDependencies, normalizePythonName } from "../src/manifests/python.js";
+import { createProject } from "./helpers.js";
+
+describe("loadPythonDependencies", () => {
+	it("reads requirements files, skipping options and comments", () => {
+		const cwd = createProject({
+			"requirements.txt": [
+				"# Web",
+				"Django>=5.0,<6  # LTS soon",
+				"fastapi[all]>=0.110; python_version > '3.8'",
+				"-r requirements/base.txt",
+				"--index-url https://pypi.org/simple",
+				"-e .",
+				"requests",
+				"",
+			].join("\n"),
+			"requirements/base.txt": "celery==5.3.6\n",
+		});
+
+		expect(loadPythonDependencies(cwd)).toEqual({
+			django: ">=5.0,<6",
+			fastapi: ">=0.110",
+			requests: "",
+			celery: "==5.3.6",
+		});
+	});
+
+	it("reads the names of direct references and skips bare URLs", () => {
+		const cwd = createProject({
+			"requirements.txt": [
+				"flask @ https://github.com/pallets/flask/archive/refs/tags/3.0.2.zip",
+				"fastapi[all] @ git+https://github.com/fastapi/fastapi@0.115.0",
+				"https://example.com/packages/celery-5.3.6-py3-none-any.whl",
+				"git+https://github.com/encode/httpx#egg=httpx",
+				"",
+			].join("\n"),
+		});
+
+		expect(loadPythonDependencies(cwd)).toEqual({ flask: "", fastapi: "" });
+	});
+
+	it("reads PEP 621, dependency groups and Poetry tables from pyproject.toml", () => {
+		const cwd = createProject({
+			"pyproject.toml": `[project]
+name = "app"
+dependencies = ["flask>=3", "SQLAlchemy[asyncio]"]
+
+[project.optional-dependencies]
+docs = ["mkdocs"]
+
+[dependency-groups]
+dev = ["pytest>=8"]
+
+[tool.poetry.dependencies]
+python = "^3.12"
+pydantic = { version = "^2.6", extras = ["email"] }
+
+[tool.poetry.group.lint.dependencies]
+ruff = "*"
+`,
+		});
+
+		expect(loadPythonDependencies(cwd)).toEqual({
+			flask: ">=3",
+			sqlalchemy: "",
+			mkdocs: "",
+			pytest: ">=8",
+			pydantic: "^2.6",
+			ruff: "",
+		});
+	});
+
+	it("reads Pipfile packages and dev-packages", () => {
+		const cwd = createProject({
+			Pipfile: `[packages]
+streamlit = "==1.32"
+pandas = "*"
+
+[dev-packages]
+black = { version = ">=24" }
+`,
+		});
+
+		expect(loadPythonDependencies(cwd)).toEqual({
+			streamlit: "==1.32",
+			pandas: "",
+			black: ">=24",
+		});
+	});
+
+	it("keeps the first specifier found across manifests", () => {
+		const cwd = createProject({
+			"requirements.txt": "flask==3.0.2\n",
+			"pyproject.toml": '[project]\ndependencies = ["flask>=2"]\n',
+		});
+
+		expect(loadPythonDependencies(cwd)).toEqual({ flask: "==3.0.2" });
+	});
+});
+
+describe("normalizePythonName", () => {
+	it("normalizes case and separators (PEP 503)", () => {
+		expect(normalizePythonName("Flask_SQLAlchemy")).toBe("flask-sqlalchemy");
+		expect(normalizePythonName("zope.interface")).toBe("zope-interface");
+	});
+});
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { SkillSearchResult } from "../src/providers/index.js";
+import { normalizeSearchResults } from "../src/providers/index.js";
+import { type RecommendOptions, recommend } from "../src/recommend.js";
+import type { DetectionResult } from "../src/types.js";
+
+function detection(searchTerms: string[], frameworks: string[] = []): DetectionResult {
+	return {
+		packageManager: null,
+		frameworks,
+		languages: [],
+		tools: searchTerms.filter((term) => !frameworks.includes(term)),
+		testing: [],
+		searchTerms,
+		details: [],
+		versions: {},
+	} as unknown as DetectionResult;
+}
+
+async function rank(
+	terms: string[],
+	results: Record<string, SkillSearchResult[]>,
+	options: RecommendOptions = {},
+) {
+	const result = await recommend(detection(terms), {
+		config: false,
+		cache: false,
+		provider: { name: "test", search: async (query) => results[query] ?? [] },
+		...options,
+	});
+	return result.recommendations;
+}
+
+describe("search result ranking", () => {
+	it("ranks trusted sources and closer names first", async () => {
+		const recommendations = await rank(["prisma"], {
+			prisma: normalizeSearchResults([
+				"someone/skills@prisma-tips",
+				"someone/skills@prisma",
+				"vercel-labs/skills@prisma-guide",
+			]),
+		});
+
+		expect(recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"vercel-labs/skills@prisma-guide",
+			"someone/skills@prisma",
+		]);
+	});
+
+	it("ranks skills matching several detected terms first", async () => {
+		const recommendations = await rank(["prisma", "trpc"], {
+			prisma: normalizeSearchResults(["a/skills@prisma", "b/skills@trpc-prisma"]),
+			trpc: normalizeSearchResults(["c/skills@trpc"]),
+		});
+
+		expect(recommendations[0]).toMatchObject({
+			ref: "b/skills@trpc-prisma",
+			reason: { kind: "search", term: "prisma", terms: ["prisma", "trpc"] },
+		});
+		expect(recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"b/skills@trpc-prisma",
+			"a/skills@prisma",
+			"c/skills@trpc",
+		]);
+	});
+
+	it("weighs install counts", async () => {
+		const recommendations = await rank(["zod"], {
+			zod: normalizeSearchResults([
+				{ ref: "a/skills@zod", installs: 10 },
+				{ ref: "b/skills@zod", installs: 100000 },
+			]),
+		});
+
+		expect(recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"b/skills@zod",
+			"a/skills@zod",
+		]);
+	});
+
+	it("limits results overall and per term", async () => {
+		const results = {
+			alpha: normalizeSearchResults(["a/x@alpha", "a/y@alpha-one", "a/z@alpha-two"]),
+			beta: normalizeSearchResults(["b/x@beta", "b/y@beta-one"]),
+		};
+
+		expect(await rank(["alpha", "beta"], results)).toHaveLength(4);
+		expect(await rank(["alpha", "beta"], results, { perTerm: 1 })).toHaveLength(2);
+		expect(await rank(["alpha", "beta"], results, { limit: 3, perTerm: 3 })).toHaveLength(3);
+	});
+});
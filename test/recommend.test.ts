@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { SkillCatalog } from "../src/catalog/index.js";
+import { recommend } from "../src/recommend.js";
+import type { DetectionResult } from "../src/types.js";
+
+function detection(overrides: Partial<DetectionResult> = {}): DetectionResult {
+	return {
+		packageManager: "npm",
+		frameworks: ["acme-web"],
+		languages: [],
+		tools: ["acme-db"],
+		testing: [],
+		searchTerms: ["acme-db", "acme-web"],
+		details: [],
+		versions: {},
+		...overrides,
+	} as DetectionResult;
+}
+
+const catalog: SkillCatalog = {
+	version: 1,
+	entries: [
+		{
+			id: "acme-db",
+			skills: ["acme/skills@db"],
+			when: { any: { tools: ["acme-db"] } },
+			rationale: "Official database skill",
+		},
+		{
+			id: "acme-web",
+			skills: ["acme/skills@web", "other/skills@web"],
+			when: { any: { frameworks: ["acme-web"] } },
+			priority: 10,
+		},
+	],
+};
+
+describe("recommend", () => {
+	it("recommends pinned skills, then curated skills by priority", async () => {
+		const result = await recommend(detection(), {
+			config: { pinSkills: ["me/mine@helper"] },
+			catalogs: [catalog],
+			search: false,
+		});
+
+		expect(result.recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"me/mine@helper",
+			"acme/skills@web",
+			"other/skills@web",
+			"acme/skills@db",
+		]);
+		expect(result.recommendations[3]).toEqual({
+			ref: "acme/skills@db",
+			source: "acme/skills",
+			skill: "db",
+			reason: {
+				kind: "curated",
+				entry: "acme-db",
+				rationale: "Official database skill",
+				matched: ["acme-db"],
+			},
+		});
+		expect(result.skills).toEqual([
+			{ source: "acme/skills", skills: ["db", "web"] },
+			{ source: "me/mine", skills: ["helper"] },
+			{ source: "other/skills", skills: ["web"] },
+		]);
+		expect(result.searchedTerms).toEqual([]);
+	});
+
+	it("leaves out blocked skills and sources", async () => {
+		const result = await recommend(detection(), {
+			config: { blockSkills: ["acme/skills@db", "other/skills"] },
+			catalogs: [catalog],
+			search: false,
+		});
+
+		expect(result.recommendations.map((recommendation) => recommendation.ref)).toEqual([
+			"acme/skills@web",
+		]);
+	});
+
+	it("applies curated skills from the project config", async () => {
+		const result = await recommend(detection(), {
+			config: { curated: { "acme-web": ["me/web@ui"] } },
+			search: false,
+		});
+
+		expect(result.recommendations).toEqual([
+			{
+				ref: "me/web@ui",
+				source: "me/web",
+				skill: "ui",
+				reason: { kind: "curated", entry: "acme-web", matched: ["acme-web"] },
+			},
+		]);
+	});
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { detect, registerDetector } from "../src/index.js";
+import { createProject } from "./helpers.js";
+
+describe("custom detectors", () => {
+	it("matches patterns in built-in and new categories", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({ dependencies: { "@acme/ui": "^3.0.0" } }),
+			"acme.config.json": "{}",
+		});
+
+		const result = await detect({
+			cwd,
+			detectors: [
+				{ name: "acme-ui", category: "frameworks", dependencies: ["@acme/ui"] },
+				{ name: "acme-deploy", category: "internal", configFiles: ["acme.config.json"] },
+				{ name: "acme-cli", category: "internal", dependencies: ["@acme/cli"] },
+			],
+		});
+
+		expect(result.frameworks).toContain("acme-ui");
+		expect(result.custom).toEqual({ internal: ["acme-deploy"] });
+		expect(result.searchTerms).toEqual(expect.arrayContaining(["acme-ui", "acme-deploy"]));
+		expect(result.searchTerms).not.toContain("acme-cli");
+	});
+
+	it("runs detector functions against each directory", async () => {
+		const cwd = createProject({ Makefile: "all:\n" });
+
+		const result = await detect({
+			cwd,
+			detectors: [
+				(ctx) =>
+					ctx.cwd === cwd
+						? [
+								{
+									name: "make",
+									category: "tools",
+									confidence: 1,
+									evidence: [{ kind: "file", source: "Makefile" }],
+								},
+							]
+						: [],
+			],
+		});
+
+		expect(result.tools).toContain("make");
+	});
+
+	it("runs registered detectors until they are unregistered", async () => {
+		const cwd = createProject({ "deno.json": "{}" });
+		const unregister = registerDetector({
+			name: "deno",
+			category: "tools",
+			configFiles: ["deno.json"],
+		});
+
+		try {
+			expect((await detect({ cwd })).tools).toContain("deno");
+		} finally {
+			unregister();
+		}
+		expect((await detect({ cwd })).tools).not.toContain("deno");
+	});
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parseGemfile, parseGemfileLock } from "../src/manifests/ruby.js";
+
+describe("parseGemfile", () => {
+	it("reads gems with their version requirements", () => {
+		const gems = parseGemfile(`source "https://rubygems.org"
+
+gem "rails", "~> 7.1.0"
+gem 'puma', '>= 5.0', '< 7' # web server
+gem("sidekiq")
+gem "pg", require: false
+# gem "unused"
+`);
+
+		expect(gems).toEqual({
+			rails: "~> 7.1.0",
+			puma: ">= 5.0, < 7",
+			sidekiq: "",
+			pg: "",
+		});
+	});
+});
+
+describe("parseGemfileLock", () => {
+	it("reads direct dependencies and resolved specs", () => {
+		const lock = parseGemfileLock(`GIT
+  remote: https://github.com/heartcombo/devise.git
+  revision: abc123
+  specs:
+    devise (4.9.3)
+      bcrypt (~> 3.0)
+
+PATH
+  remote: engines/admin
+  specs:
+    admin (0.1.0)
+
+GEM
+  remote: https://rubygems.org/
+  specs:
+    nokogiri (1.16.2-x86_64-linux)
+      racc (~> 1.4)
+    racc (1.7.3)
+    rails (7.1.3)
+      actionpack (= 7.1.3)
+
+PLATFORMS
+  x86_64-linux
+
+DEPENDENCIES
+  admin!
+  devise!
+  nokogiri
+  rails (~> 7.1.0)
+
+BUNDLED WITH
+   2.5.6
+`);
+
+		expect(lock.dependencies).toEqual({
+			admin: "",
+			devise: "",
+			nokogiri: "",
+			rails: "~> 7.1.0",
+		});
+		// Platform suffixes are stripped, nested dependency requirements are left out
+		expect(lock.specs).toEqual({
+			devise: "4.9.3",
+			admin: "0.1.0",
+			nokogiri: "1.16.2",
+			racc: "1.7.3",
+			rails: "7.1.3",
+		});
+	});
+});
@@ -0,0 +1,222 @@
+import { describe, expect, it } from "vitest";
+import { groupSkillsBySource, parseSkillRef } from "../src/skills.js";
+import type { DetectionResult, RecommendationResult, SkillRecommendation } from "../src/types.js";
+import {
+	buildSkillsJson,
+	diffSkillsJson,
+	mergeSkillsJson,
+	overwriteSkillsJson,
+	type SkillsJson,
+} from "../src/writers/skillman.js";
+
+function detection(overrides: Partial<DetectionResult> = {}): DetectionResult {
+	const detected = {
+		packageManager: "pnpm",
+		frameworks: ["nextjs"],
+		languages: ["typescript"],
+		tools: ["prisma"],
+		testing: [],
+		platforms: [],
+		ci: [],
+		databases: [],
+		versions: {},
+		details: [],
+		...overrides,
+	};
+	return {
+		searchTerms: [...detected.frameworks, ...detected.tools].sort(),
+		...detected,
+	} as unknown as DetectionResult;
+}
+
+/**
+ * Recommendations keyed by ref, with the detections that triggered each one
+ */
+function recommendations(refs: Record<string, string[]>): RecommendationResult {
+	const list: SkillRecommendation[] = Object.entries(refs).map(([ref, terms]) => ({
+		ref,
+		...parseSkillRef(ref),
+		reason: { kind: "search", term: terms[0], terms, score: 1 },
+	}));
+	return {
+		skills: groupSkillsBySource(Object.keys(refs)),
+		recommendations: list,
+		searchedTerms: [],
+		failedSearches: {},
+	} as RecommendationResult;
+}
+
+function refs(skillsJson: SkillsJson): string[] {
+	return skillsJson.skills.flatMap((entry) =>
+		entry.skills.map((skill) => `${entry.source}@${skill}`),
+	);
+}
+
+describe("buildSkillsJson", () => {
+	it("records the detections behind generated skills, leaving out evidence", () => {
+		const skillsJson = buildSkillsJson(
+			detection(),
+			recommendations({ "a/next@app-router": ["nextjs"] }),
+		);
+
+		expect(skillsJson.skills).toEqual([{ source: "a/next", skills: ["app-router"] }]);
+		expect(skillsJson.detected).toMatchObject({
+			frameworks: ["nextjs"],
+			recommended: { "a/next@app-router": ["nextjs"] },
+		});
+		expect(skillsJson.detected).not.toHaveProperty("details");
+	});
+});
+
+describe("mergeSkillsJson", () => {
+	const existing = buildSkillsJson(
+		detection(),
+		recommendations({ "a/next@app-router": ["nextjs"], "a/db@prisma": ["prisma"] }),
+	);
+	existing.skills = groupSkillsBySource([...refs(existing), "me/mine@notes"]);
+
+	it("keeps manual entries and flags skills whose detections are gone", () => {
+		const next = buildSkillsJson(
+			detection({ tools: ["drizzle"] }),
+			recommendations({ "a/next@app-router": ["nextjs"], "a/db@drizzle": ["drizzle"] }),
+		);
+
+		const { skillsJson, diff } = mergeSkillsJson(existing, next);
+
+		expect(diff).toEqual({
+			added: ["a/db@drizzle"],
+			removed: [],
+			kept: ["me/mine@notes"],
+			stale: { "a/db@prisma": ["prisma"] },
+		});
+		expect(refs(skillsJson).sort()).toEqual([
+			"a/db@drizzle",
+			"a/db@prisma",
+			"a/next@app-router",
+			"me/mine@notes",
+		]);
+		expect(skillsJson.detected.stale).toEqual(["a/db@prisma"]);
+		expect(skillsJson.detected.recommended).not.toHaveProperty("me/mine@notes");
+	});
+
+	it("keeps generated skills that are still triggered but no longer ranked", () => {
+		const next = buildSkillsJson(detection(), recommendations({ "a/next@app-router": ["nextjs"] }));
+
+		const { skillsJson, diff } = mergeSkillsJson(existing, next);
+
+		expect(diff.stale).toEqual({});
+		expect(refs(skillsJson)).toContain("a/db@prisma");
+		expect(skillsJson.detected.recommended).toEqual({
+			"a/next@app-router": ["nextjs"],
+			"a/db@prisma": ["prisma"],
+		});
+	});
+
+	it("keeps every skill of a hand-written file", () => {
+		const next = buildSkillsJson(detection(), recommendations({ "a/db@prisma": ["prisma"] }));
+		const handWritten = { skills: [{ source: "me/mine", skills: ["notes"] }] } as SkillsJson;
+
+		const { skillsJson, diff } = mergeSkillsJson(handWritten, next);
+
+		expect(diff).toMatchObject({ added: ["a/db@prisma"], kept: ["me/mine@notes"], stale: {} });
+		expect(refs(skillsJson)).toEqual(["a/db@prisma", "me/mine@notes"]);
+	});
+});
+
+describe("mergeSkillsJson with a file from an earlier version", () => {
+	// Written before detected.recommended was recorded
+	const legacy = {
+		$schema: "https://unpkg.com/skillman/skills_schema.json",
+		detected: {
+			packageManager: "pnpm",
+			frameworks: ["nextjs"],
+			languages: ["typescript"],
+			tools: ["prisma"],
+			testing: [],
+			searchTerms: ["nextjs", "prisma"],
+			timestamp: "2025-01-01T00:00:00.000Z",
+		},
+		skills: [
+			{ source: "a/db", skills: ["prisma"] },
+			{ source: "a/next", skills: ["app-router"] },
+		],
+	} as unknown as SkillsJson;
+
+	it("treats its skills as generated by the search terms detected back then", () => {
+		const next = buildSkillsJson(detection({ tools: [] }), recommendations({}));
+
+		const { skillsJson, diff } = mergeSkillsJson(legacy, next);
+
+		expect(diff).toEqual({ added: [], removed: [], kept: [], stale: {} });
+		expect(skillsJson.detected.recommended).toEqual({
+			"a/db@prisma": ["nextjs"],
+			"a/next@app-router": ["nextjs"],
+		});
+	});
+
+	it("flags its skills as stale once none of those terms is detected", () => {
+		const next = buildSkillsJson(
+			detection({ frameworks: ["express"], tools: [] }),
+			recommendations({ "a/web@express": ["express"] }),
+		);
+
+		const { diff } = mergeSkillsJson(legacy, next);
+
+		expect(diff).toEqual({
+			added: ["a/web@express"],
+			removed: [],
+			kept: [],
+			stale: { "a/db@prisma": ["nextjs", "prisma"], "a/next@app-router": ["nextjs", "prisma"] },
+		});
+	});
+});
+
+describe("overwriteSkillsJson", () => {
+	it("replaces the existing skills", () => {
+		const existing = buildSkillsJson(detection(), recommendations({ "a/db@prisma": ["prisma"] }));
+		const next = buildSkillsJson(detection(), recommendations({ "a/db@drizzle": ["drizzle"] }));
+
+		const { skillsJson, diff } = overwriteSkillsJson(existing, next);
+
+		expect(skillsJson).toBe(next);
+		expect(diff).toEqual({
+			added: ["a/db@drizzle"],
+			removed: ["a/db@prisma"],
+			kept: [],
+			stale: {},
+		});
+	});
+});
+
+describe("diffSkillsJson", () => {
+	const committed = buildSkillsJson(detection(), recommendations({ "a/db@prisma": ["prisma"] }));
+
+	it("is empty when only the timestamp changed", () => {
+		const next = buildSkillsJson(detection(), recommendations({ "a/db@prisma": ["prisma"] }));
+		next.detected.timestamp = "2030-01-01T00:00:00.000Z";
+
+		expect(diffSkillsJson(committed, next)).toEqual([]);
+	});
+
+	it("reports drifted detections and skills", () => {
+		const next = buildSkillsJson(
+			detection({ packageManager: "npm", tools: ["drizzle"], versions: { nextjs: "15" } }),
+			recommendations({ "a/db@drizzle": ["drizzle"] }),
+		);
+
+		expect(diffSkillsJson(committed, next)).toEqual([
+			'packageManager: "pnpm" -> "npm"',
+			"searchTerms: +drizzle -prisma",
+			"skills: +a/db@drizzle -a/db@prisma",
+			"tools: +drizzle -prisma",
+			'versions.nextjs: (none) -> "15"',
+		]);
+	});
+
+	it("only compares skills when asked to", () => {
+		const next = buildSkillsJson(detection(), recommendations({ "a/db@drizzle": ["prisma"] }));
+
+		expect(diffSkillsJson(committed, next, false)).toEqual([]);
+		expect(diffSkillsJson(committed, next)).toEqual(["skills: +a/db@drizzle -a/db@prisma"]);
+	});
+});
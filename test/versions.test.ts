@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { detect } from "../src/index.js";
+import { majorVersion, parseVersionedName, satisfiesMajor } from "../src/versions.js";
+import { createProject } from "./helpers.js";
+
+describe("majorVersion", () => {
+	it("extracts the major version from versions and ranges", () => {
+		expect(majorVersion("^15.1.0")).toBe("15");
+		expect(majorVersion("~4.18")).toBe("4");
+		expect(majorVersion("==2.0.1")).toBe("2");
+		expect(majorVersion("v1.9.1")).toBe("1");
+		expect(majorVersion(">=3 <5")).toBe("3");
+		expect(majorVersion("0.110.0")).toBe("0");
+		expect(majorVersion("npm:@scope/other@^2.0.0")).toBe("2");
+	});
+
+	it("ignores tags, protocols and wildcards", () => {
+		expect(majorVersion(undefined)).toBeUndefined();
+		expect(majorVersion("latest")).toBeUndefined();
+		expect(majorVersion("*")).toBeUndefined();
+		expect(majorVersion("workspace:*")).toBeUndefined();
+		expect(majorVersion("github:vercel/next.js")).toBeUndefined();
+	});
+});
+
+describe("parseVersionedName", () => {
+	it("splits names from ranges, keeping scopes", () => {
+		expect(parseVersionedName("nextjs@>=15")).toEqual({ name: "nextjs", range: ">=15" });
+		expect(parseVersionedName("@tanstack/react-query@5")).toEqual({
+			name: "@tanstack/react-query",
+			range: "5",
+		});
+		expect(parseVersionedName("react")).toEqual({ name: "react" });
+	});
+});
+
+describe("satisfiesMajor", () => {
+	it("matches exact, comparator and alternative ranges", () => {
+		expect(satisfiesMajor("15", "15")).toBe(true);
+		expect(satisfiesMajor("15", "^15")).toBe(true);
+		expect(satisfiesMajor("14", ">=15")).toBe(false);
+		expect(satisfiesMajor("16", ">=15 <17")).toBe(true);
+		expect(satisfiesMajor("17", ">=15 <17")).toBe(false);
+		expect(satisfiesMajor("3", "2 || 3")).toBe(true);
+	});
+
+	it("requires a known version unless the range is empty or a wildcard", () => {
+		expect(satisfiesMajor(undefined, undefined)).toBe(true);
+		expect(satisfiesMajor(undefined, "*")).toBe(true);
+		expect(satisfiesMajor(undefined, "15")).toBe(false);
+	});
+});
+
+describe("detect", () => {
+	it("resolves major versions and optionally qualifies search terms", async () => {
+		const cwd = createProject({
+			"package.json": JSON.stringify({
+				dependencies: { next: "^15.1.0", react: "19.0.0" },
+				devDependencies: { typescript: "~5.7.2" },
+			}),
+		});
+
+		const result = await detect({ cwd });
+		expect(result.versions).toMatchObject({ nextjs: "15", react: "19", typescript: "5" });
+		expect(result.searchTerms).toContain("nextjs");
+
+		const versioned = await detect({ cwd, versionedSearchTerms: true });
+		expect(versioned.searchTerms).toEqual(
+			expect.arrayContaining(["nextjs@15", "react@19", "typescript@5"]),
+		);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { refineLanguages, sampleLanguages } from "../src/detectors/languages.js";
+import { type WalkOptions, walkFiles } from "../src/walk.js";
+import { createProject } from "./helpers.js";
+
+function walkedPaths(cwd: string, options: WalkOptions = {}): string[] {
+	const paths: string[] = [];
+	walkFiles(cwd, options, ({ path }) => {
+		paths.push(path);
+		return false;
+	});
+	return paths;
+}
+
+describe("walkFiles", () => {
+	it("honors root and nested .gitignore files", () => {
+		const cwd = createProject({
+			".gitignore": "# generated\n/reports\ntmp/\n*.log\n!keep.log\n",
+			"src/index.ts": "",
+			"src/debug.log": "",
+			"src/keep.log": "",
+			"src/reports/page.ts": "",
+			"reports/summary.ts": "",
+			"src/tmp/scratch.ts": "",
+			"packages/api/.gitignore": "generated\n",
+			"packages/api/generated/client.ts": "",
+			"packages/api/main.ts": "",
+		});
+
+		expect(walkedPaths(cwd)).toEqual([
+			"packages/api/main.ts",
+			"src/index.ts",
+			"src/keep.log",
+			"src/reports/page.ts",
+		]);
+	});
+
+	it("ignores directory-only rules for files", () => {
+		const cwd = createProject({
+			".gitignore": "cache/\n",
+			cache: "a file, not a directory",
+			"lib/cache/data.json": "",
+		});
+
+		expect(walkedPaths(cwd)).toEqual(["cache"]);
+	});
+
+	it("skips dotfiles and dependency directories", () => {
+		const cwd = createProject({
+			".env": "",
+			".github/workflows/ci.yml": "",
+			"node_modules/react/index.js": "",
+			"main.py": "",
+		});
+
+		expect(walkedPaths(cwd)).toEqual(["main.py"]);
+	});
+
+	it("stops at the file limit and maximum depth", () => {
+		const cwd = createProject({
+			"a.ts": "",
+			"b.ts": "",
+			"c.ts": "",
+			"one/two/three.ts": "",
+		});
+
+		expect(walkedPaths(cwd, { maxFiles: 2 })).toEqual(["a.ts", "b.ts"]);
+		expect(walkedPaths(cwd, { maxDepth: 1 })).toEqual(["a.ts", "b.ts", "c.ts"]);
+	});
+});
+
+describe("sampleLanguages", () => {
+	it("breaks down source files by language, largest share first", () => {
+		const cwd = createProject({
+			"app/main.py": "x".repeat(600),
+			"app/util.py": "x".repeat(200),
+			"web/index.ts": "x".repeat(200),
+			"README.md": "x".repeat(5000),
+		});
+
+		expect(sampleLanguages(cwd)).toEqual([
+			{ name: "python", files: 2, bytes: 800, percentage: 80 },
+			{ name: "typescript", files: 1, bytes: 200, percentage: 20 },
+		]);
+	});
+});
+
+describe("refineLanguages", () => {
+	it("orders languages by volume and keeps their versions", () => {
+		const detected = [
+			{
+				name: "javascript",
+				category: "languages",
+				confidence: 0.8,
+				evidence: [{ kind: "configFile" as const, source: "package.json" }],
+			},
+			{
+				name: "typescript",
+				category: "languages",
+				confidence: 0.9,
+				version: "5",
+				evidence: [{ kind: "dependency" as const, source: "package.json", version: "^5.6.0" }],
+			},
+		];
+
+		const refined = refineLanguages(detected, [
+			{ name: "python", files: 3, bytes: 700, percentage: 70 },
+			{ name: "typescript", files: 2, bytes: 300, percentage: 30 },
+		]);
+
+		expect(refined.map((item) => item.name)).toEqual(["python", "typescript"]);
+		expect(refined[1]).toMatchObject({ version: "5", confidence: 0.99 });
+	});
+});
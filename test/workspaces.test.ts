@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { detect } from "../src/index.js";
+import { detectWorkspaces } from "../src/workspaces.js";
+import { createProject } from "./helpers.js";
+
+const pkg = (name: string, extra: object = {}) => JSON.stringify({ name, ...extra });
+
+describe("detectWorkspaces", () => {
+	it("reads pnpm-workspace.yaml globs and exclusions", () => {
+		const cwd = createProject({
+			"pnpm-workspace.yaml": "packages:\n  - 'apps/*'\n  - 'packages/**'\n  - '!packages/legacy'\n",
+			"apps/web/package.json": pkg("web"),
+			"apps/docs/README.md": "# Not a package",
+			"packages/ui/package.json": pkg("ui"),
+			"packages/tools/eslint/package.json": pkg("eslint-config"),
+			"packages/legacy/package.json": pkg("legacy"),
+		});
+
+		expect(detectWorkspaces(cwd)).toEqual(["apps/web", "packages/tools/eslint", "packages/ui"]);
+	});
+
+	it("reads package.json workspaces, as an array or yarn's object form", () => {
+		const cwd = createProject({
+			"apps/web/package.json": pkg("web"),
+			"packages/ui/package.json": pkg("ui"),
+		});
+
+		expect(detectWorkspaces(cwd, { workspaces: ["./apps/*", "packages/ui/"] })).toEqual([
+			"apps/web",
+			"packages/ui",
+		]);
+		expect(detectWorkspaces(cwd, { workspaces: { packages: ["packages/*"] } })).toEqual([
+			"packages/ui",
+		]);
+	});
+
+	it("defaults lerna.json packages to packages/*", () => {
+		const cwd = createProject({
+			"lerna.json": JSON.stringify({ version: "independent" }),
+			"packages/core/package.json": pkg("core"),
+			"modules/extra/package.json": pkg("extra"),
+		});
+
+		expect(detectWorkspaces(cwd)).toEqual(["packages/core"]);
+	});
+
+	it("finds Nx projects under the configured layout", () => {
+		const cwd = createProject({
+			"nx.json": JSON.stringify({ workspaceLayout: { appsDir: "services" } }),
+			"services/api/project.json": "{}",
+			"libs/shared/project.json": "{}",
+			"apps/ignored/project.json": "{}",
+		});
+
+		expect(detectWorkspaces(cwd)).toEqual(["libs/shared", "services/api"]);
+	});
+
+	it("returns nothing outside a monorepo", () => {
+		expect(detectWorkspaces(createProject({ "package.json": pkg("app") }))).toEqual([]);
+	});
+});
+
+describe("detect", () => {
+	it("runs detectors per workspace and merges them into the root result", async () => {
+		const cwd = createProject({
+			"package.json": pkg("root", {
+				workspaces: ["apps/*"],
+				devDependencies: { vitest: "^2.0.0" },
+			}),
+			"apps/web/package.json": pkg("web", { dependencies: { next: "^15.0.0" } }),
+			"apps/api/package.json": pkg("api", { dependencies: { express: "^4.0.0" } }),
+		});
+
+		const result = await detect({ cwd });
+
+		expect(result.frameworks).toEqual(expect.arrayContaining(["nextjs", "express"]));
+		expect(result.testing).toContain("vitest");
+		expect(result.workspaces?.["apps/web"]).toMatchObject({ name: "web" });
+		expect(result.workspaces?.["apps/web"].frameworks).toContain("nextjs");
+		expect(result.workspaces?.["apps/web"].frameworks).not.toContain("express");
+		expect(result.workspaces?.["apps/api"].frameworks).toContain("express");
+
+		const flat = await detect({ cwd, workspaces: false });
+		expect(flat.workspaces).toBeUndefined();
+		expect(flat.frameworks).not.toContain("nextjs");
+	});
+});
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import { groupSkillsBySource, parseSkillRef } from "../src/skills.js";
+import type { DetectionResult, RecommendationResult, SkillRecommendation } from "../src/types.js";
+import {
+	agentsMdWriter,
+	createMarkdownWriter,
+	cursorRulesWriter,
+	diffLines,
+	getWriter,
+	listWriters,
+	lockfileWriter,
+	type OutputWriter,
+	registerWriter,
+	skillmanWriter,
+} from "../src/writers/index.js";
+
+const detection = {
+	packageManager: "npm",
+	frameworks: ["nextjs"],
+	languages: ["typescript"],
+	tools: ["prisma"],
+	testing: [],
+	platforms: [],
+	ci: [],
+	databases: [],
+	searchTerms: ["nextjs", "prisma"],
+	details: [],
+	versions: {},
+} as unknown as DetectionResult;
+
+function result(recommendations: SkillRecommendation[]): RecommendationResult {
+	return {
+		skills: groupSkillsBySource(recommendations.map(({ ref }) => ref)),
+		recommendations,
+		searchedTerms: [],
+		failedSearches: {},
+	};
+}
+
+const recommendations = result([
+	{ ref: "me/mine@notes", ...parseSkillRef("me/mine@notes"), reason: { kind: "pinned" } },
+	{
+		ref: "a/next@app-router",
+		...parseSkillRef("a/next@app-router"),
+		reason: { kind: "curated", entry: "nextjs", matched: ["nextjs"], rationale: "App Router" },
+	},
+	{
+		ref: "a/db@prisma",
+		...parseSkillRef("a/db@prisma"),
+		reason: { kind: "search", term: "prisma", terms: ["prisma"], score: 1 },
+	},
+] as SkillRecommendation[]);
+
+describe("markdown writers", () => {
+	it("renders a section listing each skill with its reason", () => {
+		const { content } = agentsMdWriter.render({ detection, result: recommendations });
+
+		expect(content).toBe(
+			[
+				"<!-- skills-detector:start -->",
+				"## Agent Skills",
+				"",
+				"Skills recommended for this project by skills-detector. This section is regenerated, so edit outside of it.",
+				"",
+				"Detected: nextjs, prisma",
+				"",
+				"- `me/mine@notes`: pinned in the project config",
+				"- `a/next@app-router`: App Router",
+				"- `a/db@prisma`: found for prisma",
+				"<!-- skills-detector:end -->",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("replaces its own section and keeps the rest of the file", () => {
+		const writer = createMarkdownWriter({ name: "notes", file: "NOTES.md", heading: "Skills" });
+		const first = writer.render({
+			detection,
+			result: result([]),
+			existing: "# Notes\n\nHand-written.\n",
+		}).content;
+
+		expect(first).toContain(
+			"# Notes\n\nHand-written.\n\n<!-- skills-detector:start -->\n## Skills",
+		);
+		expect(first).toContain("No skills recommended.");
+
+		const second = writer.render({
+			detection,
+			result: recommendations,
+			existing: `${first}\nFooter\n`,
+		}).content;
+
+		expect(second.match(/skills-detector:start/g)).toHaveLength(1);
+		expect(second).not.toContain("No skills recommended.");
+		expect(second).toMatch(/^# Notes\n\nHand-written\.\n/);
+		expect(second).toMatch(/<!-- skills-detector:end -->\n\nFooter\n$/);
+	});
+});
+
+describe("cursorRulesWriter", () => {
+	it("renders an always-applied rule", () => {
+		const { content } = cursorRulesWriter.render({ detection, result: recommendations });
+
+		expect(content).toMatch(/^---\ndescription: .+\nalwaysApply: true\n---\n/);
+		expect(content).toContain("- `a/db@prisma`: found for prisma\n");
+	});
+});
+
+describe("lockfileWriter", () => {
+	it("lists skill refs grouped by source", () => {
+		const { content } = lockfileWriter.render({ detection, result: recommendations });
+
+		expect(content.split("\n").slice(1)).toEqual([
+			"a/db@prisma",
+			"a/next@app-router",
+			"me/mine@notes",
+			"",
+		]);
+	});
+});
+
+describe("skillmanWriter", () => {
+	it("merges with the existing skills.json and reports the diff", () => {
+		const existing = JSON.stringify({ skills: [{ source: "me/other", skills: ["tips"] }] });
+
+		const { content, diff } = skillmanWriter.render({
+			detection,
+			result: recommendations,
+			existing,
+		});
+
+		expect(JSON.parse(content).skills).toEqual([
+			{ source: "a/db", skills: ["prisma"] },
+			{ source: "a/next", skills: ["app-router"] },
+			{ source: "me/mine", skills: ["notes"] },
+			{ source: "me/other", skills: ["tips"] },
+		]);
+		expect(diff?.kept).toEqual(["me/other@tips"]);
+		expect(
+			skillmanWriter.render({ detection, result: recommendations, existing, mode: "overwrite" })
+				.diff,
+		).toMatchObject({ kept: [], removed: ["me/other@tips"] });
+	});
+
+	it("flags an invalid existing file when checking", () => {
+		expect(skillmanWriter.diff?.("not json", "{}")).toEqual(["skills.json is not valid"]);
+	});
+});
+
+describe("writer registry", () => {
+	it("lists the built-in writers", () => {
+		expect(listWriters().map(({ name }) => name)).toEqual([
+			"skillman",
+			"agents-md",
+			"claude-md",
+			"cursor",
+			"lockfile",
+		]);
+	});
+
+	it("registers writers, replacing built-in ones by name", () => {
+		const custom: OutputWriter = {
+			name: "lockfile",
+			defaultPath: "custom.lock",
+			render: () => ({ content: "" }),
+		};
+		const unregister = registerWriter(custom);
+
+		expect(getWriter("lockfile")).toBe(custom);
+		expect(listWriters()).toHaveLength(5);
+
+		unregister();
+		expect(getWriter("lockfile")).toBe(lockfileWriter);
+	});
+});
+
+describe("diffLines", () => {
+	it("reports added and removed lines, ignoring order", () => {
+		expect(diffLines("a\nb\nc\n", "c\nb\nd\n")).toEqual(["+d", "-a"]);
+	});
+});